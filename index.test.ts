@@ -0,0 +1,328 @@
+import { describe, it, expect } from 'vitest';
+import { createCanvas, type Canvas } from '@napi-rs/canvas';
+import {
+  createSceneAssets,
+  composeScene,
+  buildLayerItems,
+  paintCanvasItems,
+  checkSpelling,
+  createSpellRules,
+  type HistoryState,
+  type Rect,
+} from './index.tsx';
+
+// 편집 화면(buildLayerItems + paintCanvasItems)과 결과물(composeScene)이 같은 픽셀을 그리는지 비교
+const WIDTH = 320;
+const HEIGHT = 240;
+const FONT = 'DejaVu Sans';
+
+const asDom = <T>(canvas: Canvas) => canvas as unknown as T;
+
+// 인페인팅 / 글자 지우기가 임시 캔버스를 만들 때 쓰는 document (getElementById 없음 → 앱은 마운트되지 않음)
+Object.assign(globalThis, { document: { createElement: () => createCanvas(1, 1) } });
+
+// 원본 이미지 대신 쓰는 무늬 배경
+const createBase = () => {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext('2d');
+  const gradient = ctx.createLinearGradient(0, 0, WIDTH, HEIGHT);
+  gradient.addColorStop(0, '#e0f2fe');
+  gradient.addColorStop(1, '#fde68a');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.fillStyle = '#334155';
+  for (let x = 0; x < WIDTH; x += 16) ctx.fillRect(x, 0, 2, HEIGHT);
+  return canvas;
+};
+
+// 스티커 / 교체 이미지 - 좌우·상하가 구분되는 그림이라 뒤집기/회전이 틀리면 바로 드러남
+const createImage = (w: number, h: number) => {
+  const canvas = createCanvas(w, h);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#2563eb';
+  ctx.fillRect(0, 0, w, h);
+  ctx.fillStyle = '#f43f5e';
+  ctx.fillRect(0, 0, w / 2, h / 3);
+  ctx.fillStyle = '#22c55e';
+  ctx.beginPath();
+  ctx.arc(w * 0.7, h * 0.7, Math.min(w, h) / 4, 0, Math.PI * 2);
+  ctx.fill();
+  return Object.assign(canvas, { complete: true }) as unknown as HTMLImageElement;
+};
+
+// 교체 이미지 / 스티커 그림 - 편집 화면과 결과물이 같은 그림을 씀
+const IMAGES = {
+  stickers: new Map([
+    [201, createImage(60, 40)],
+    [202, createImage(32, 48)],
+  ]),
+  replacements: new Map([[103, createImage(80, 50)]]),
+};
+
+const EMPTY_STATE: HistoryState = { selections: [], replacements: {}, stickers: [], customTexts: [], layers: [] };
+
+const ROTATED_TEXT: Partial<HistoryState> = {
+  selections: [
+    {
+      id: 101,
+      x: 40.5,
+      y: 30.25,
+      w: 150,
+      h: 60,
+      type: 'text',
+      textColor: '#111827',
+      textBgColor: '#ffffff',
+      textRotation: 17,
+      fontSize: 22,
+      fontFamily: FONT,
+      fontWeight: 'bold',
+      textAlign: 'center',
+      textOffsetY: 3,
+    },
+  ],
+  replacements: { 101: '교정된 글자\nSecond line' },
+};
+
+const RICH_TEXT: Partial<HistoryState> = {
+  selections: [
+    {
+      id: 102,
+      x: 170,
+      y: 140,
+      w: 120,
+      h: 70,
+      type: 'text',
+      textColor: '#000000',
+      textBgColor: '#fef3c7',
+      textRotation: -32,
+      fontSize: 18,
+      fontFamily: FONT,
+      textAlign: 'right',
+      segments: [
+        { text: '빨강 ', color: '#dc2626', bold: true },
+        { text: 'blue', color: '#2563eb', fontSize: 26 },
+        { text: '다음 줄', color: '#16a34a', newLine: true },
+      ],
+    },
+  ],
+  replacements: { 102: '빨강 blue\n다음 줄' },
+};
+
+const IMAGE_REPLACE: Partial<HistoryState> = {
+  selections: [
+    {
+      id: 103,
+      x: 60,
+      y: 110,
+      w: 80,
+      h: 50,
+      type: 'image-replace',
+      replacementImage: 'data:image/png;base64,',
+      textBgColor: '#ffffff',
+      imageRotation: 30,
+      imageFlipX: true,
+      imageFlipY: true,
+    },
+  ],
+};
+
+// 원래 글자 지우기 방식별 - 원본 픽셀(base)을 읽는 경로
+const BG_FILL: Partial<HistoryState> = {
+  selections: [
+    { id: 111, x: 20, y: 20, w: 90, h: 40, type: 'text', textColor: '#334155', textBgColor: '#e0f2fe', bgFillMode: 'gradient', fontSize: 16, fontFamily: FONT },
+    { id: 112, x: 150, y: 30, w: 100, h: 44, type: 'text', textColor: '#111827', textBgColor: '#fde68a', textRotation: 10, bgFillMode: 'inpaint', fontSize: 18, fontFamily: FONT },
+    { id: 113, x: 60, y: 150, w: 120, h: 50, type: 'text', textColor: '#334155', textBgColor: '#fde68a', bgFillMode: 'glyph', fontSize: 20, fontFamily: FONT },
+  ],
+  replacements: { 111: '그라데이션', 112: 'inpaint', 113: '' },
+};
+
+const STICKERS: Partial<HistoryState> = {
+  stickers: [
+    { id: 201, src: 'data:image/png;base64,', x: 210.5, y: 70, w: 60, h: 40, scale: 1.3, rotation: 25, opacity: 0.7, flipX: true },
+    { id: 202, src: 'data:image/png;base64,', x: 100, y: 190, w: 32, h: 48, scale: 0.8, rotation: -60, opacity: 1, flipX: false },
+  ],
+};
+
+const CUSTOM_TEXT: Partial<HistoryState> = {
+  customTexts: [
+    {
+      id: 301,
+      x: 30,
+      y: 200,
+      rotation: -12,
+      scale: 1.4,
+      opacity: 0.85,
+      fontSize: 16,
+      fontWeight: 'bold',
+      fontFamily: FONT,
+      segments: [
+        { text: '첫 줄 ', color: '#7c3aed' },
+        { text: 'colors', color: '#ea580c' },
+        { text: '두 번째 줄', color: '#0891b2', newLine: true },
+        { text: '세 번째', color: '#be123c', newLine: true },
+      ],
+    },
+  ],
+};
+
+const makeState = (...parts: Partial<HistoryState>[]): HistoryState =>
+  parts.reduce<HistoryState>(
+    (state, part) => ({
+      selections: [...state.selections, ...(part.selections || [])],
+      replacements: { ...state.replacements, ...part.replacements },
+      stickers: [...state.stickers, ...(part.stickers || [])],
+      customTexts: [...state.customTexts, ...(part.customTexts || [])],
+      layers: [...(state.layers || []), ...(part.layers || [])],
+    }),
+    EMPTY_STATE
+  );
+
+// 편집 화면 (미리보기 켬, 경계선 / ID 표시 끔) - redrawCanvas 와 같은 경로
+// prev 를 넘기면 직전 프레임에서 바뀐 영역만 다시 그림
+const createEditor = () => {
+  const baseCanvas = createBase();
+  const base = asDom<HTMLCanvasElement>(baseCanvas).getContext('2d')!.getImageData(0, 0, WIDTH, HEIGHT);
+  const ctx = asDom<HTMLCanvasElement>(createCanvas(WIDTH, HEIGHT)).getContext('2d')!;
+  const assets = createSceneAssets(base, IMAGES.stickers, IMAGES.replacements, new Map());
+  const boundsCache = new Map();
+  let frame: ReturnType<typeof paintCanvasItems> = null;
+
+  const paint = (state: HistoryState, partial = false) => {
+    const items = buildLayerItems(ctx, state, assets, { previewEnabled: true, guides: false, boundsCache });
+    const painted = paintCanvasItems(ctx, asDom<HTMLCanvasElement>(baseCanvas), items, partial ? frame?.frame ?? null : null);
+    if (painted) frame = painted;
+    return painted;
+  };
+  return { paint, pixels: () => ctx.getImageData(0, 0, WIDTH, HEIGHT).data };
+};
+
+// 결과물 (결과 보기 / PDF / 일괄 처리) - composeEdits 와 같은 경로
+// clip 을 주면 그 영역으로 잘라 그림 (부분 다시 그리기 비교용)
+const renderExport = async (state: HistoryState, clip?: Rect) => {
+  const ctx = asDom<HTMLCanvasElement>(createCanvas(WIDTH, HEIGHT)).getContext('2d')!;
+  const base = asDom<HTMLCanvasElement>(createBase()).getContext('2d')!.getImageData(0, 0, WIDTH, HEIGHT);
+  ctx.putImageData(base, 0, 0);
+  if (clip) {
+    ctx.beginPath();
+    ctx.rect(clip.x, clip.y, clip.w, clip.h);
+    ctx.clip();
+  }
+  await composeScene(ctx, state, createSceneAssets(base, IMAGES.stickers, IMAGES.replacements));
+  return ctx.getImageData(0, 0, WIDTH, HEIGHT).data;
+};
+
+const countDifferentPixels = (a: Uint8ClampedArray, b: Uint8ClampedArray) => {
+  let count = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2] || a[i + 3] !== b[i + 3]) count++;
+  }
+  return count;
+};
+
+const expectSamePixels = async (state: HistoryState) => {
+  const exported = await renderExport(state);
+  // 픽스처가 실제로 무언가를 그렸는지 (빈 장면끼리 비교하는 것 방지)
+  expect(countDifferentPixels(exported, await renderExport(EMPTY_STATE))).toBeGreaterThan(0);
+  const editor = createEditor();
+  editor.paint(state);
+  expect(countDifferentPixels(editor.pixels(), exported)).toBe(0);
+};
+
+// 전체를 그린 뒤 next 로 바꿔 부분 다시 그리기
+// 다시 그린 영역 밖은 next 를 처음부터 내보낸 것과, 안쪽은 같은 영역으로 잘라 내보낸 것과 같아야 함
+// (Skia 는 clip 크기에 따라 기울어진 가장자리의 안티앨리어싱이 조금 달라짐)
+const expectSamePixelsAfterChange = async (state: HistoryState, next: HistoryState) => {
+  const editor = createEditor();
+  editor.paint(state);
+  const painted = editor.paint(next, true);
+  const clip = painted?.clip;
+  expect(clip).toBeTruthy();
+  expect(clip!.w * clip!.h).toBeLessThan(WIDTH * HEIGHT);
+
+  const expected = await renderExport(next);
+  const clipped = await renderExport(next, clip!);
+  for (let y = clip!.y; y < clip!.y + clip!.h; y++) {
+    const start = (y * WIDTH + clip!.x) * 4;
+    expected.set(clipped.subarray(start, start + clip!.w * 4), start);
+  }
+  expect(countDifferentPixels(editor.pixels(), expected)).toBe(0);
+};
+
+describe('장면 렌더러 - 편집 화면과 결과물 픽셀 비교', () => {
+  it('회전된 여러 줄 텍스트 영역', async () => {
+    await expectSamePixels(makeState(ROTATED_TEXT));
+  });
+
+  it('부분 서식 + 회전 + 오른쪽 정렬 텍스트 영역', async () => {
+    await expectSamePixels(makeState(RICH_TEXT));
+  });
+
+  it('뒤집고 회전한 이미지 교체 영역', async () => {
+    await expectSamePixels(makeState(IMAGE_REPLACE));
+  });
+
+  it('회전 / 뒤집기 / 투명도가 있는 스티커', async () => {
+    await expectSamePixels(makeState(STICKERS));
+  });
+
+  it('여러 줄 멀티컬러 글씨', async () => {
+    await expectSamePixels(makeState(CUSTOM_TEXT));
+  });
+
+  it('레이어 순서를 바꾸고 일부를 숨긴 전체 장면', async () => {
+    const state = makeState(ROTATED_TEXT, RICH_TEXT, IMAGE_REPLACE, STICKERS, CUSTOM_TEXT, {
+      layers: [
+        { kind: 'sticker', id: 201 },
+        { kind: 'selection', id: 101 },
+        { kind: 'text', id: 301 },
+        { kind: 'selection', id: 103 },
+        { kind: 'sticker', id: 202, hidden: true },
+        { kind: 'selection', id: 102 },
+      ],
+    });
+    await expectSamePixels(state);
+  });
+
+  it('그라데이션 / 인페인팅 / 글자 지우기 배경', async () => {
+    await expectSamePixels(makeState(BG_FILL));
+  });
+});
+
+describe('장면 렌더러 - 부분 다시 그리기', () => {
+  const scene = makeState(ROTATED_TEXT, RICH_TEXT, IMAGE_REPLACE, STICKERS, CUSTOM_TEXT);
+
+  it('스티커 하나를 옮김', async () => {
+    const moved = { ...scene, stickers: scene.stickers.map((s) => (s.id === 202 ? { ...s, x: s.x + 23, y: s.y - 9 } : s)) };
+    await expectSamePixelsAfterChange(scene, moved);
+  });
+
+  it('텍스트 영역의 글자를 바꿈', async () => {
+    const edited = { ...scene, replacements: { ...scene.replacements, 101: '짧게' } };
+    await expectSamePixelsAfterChange(scene, edited);
+  });
+
+  it('인페인팅 영역을 옮김', async () => {
+    const fills = makeState(BG_FILL);
+    const moved = { ...fills, selections: fills.selections.map((s) => (s.id === 112 ? { ...s, x: s.x + 12, y: s.y + 40 } : s)) };
+    await expectSamePixelsAfterChange(fills, moved);
+  });
+});
+
+describe('맞춤법 검사 - 니다 받침', () => {
+  const suggest = (text: string) => checkSpelling(text, createSpellRules([])).map((issue) => issue.suggestion);
+
+  it('-ㅂ니다 어간의 받침 오류', () => {
+    expect(suggest('감사함니다')).toEqual(['감사합니다']);
+    expect(suggest('됨니다')).toEqual(['됩니다']);
+  });
+
+  it('ㅆ / ㅄ 받침 뒤에는 습을 넣음', () => {
+    expect(suggest('있니다')).toEqual(['있습니다']);
+    expect(suggest('했니다')).toEqual(['했습니다']);
+    expect(suggest('없니다')).toEqual(['없습니다']);
+  });
+
+  it('올바른 표현은 건드리지 않음', () => {
+    expect(suggest('있습니다 했습니다 합니다')).toEqual([]);
+  });
+});
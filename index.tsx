@@ -1,15 +1,33 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
 import { GoogleGenAI } from "@google/genai";
+import { createWorker, PSM, type Worker as OcrWorker } from 'tesseract.js';
+import { PDFDocument } from 'pdf-lib';
+import { zipSync } from 'fflate';
 
 const PDFJS_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
 const PDFJS_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+const THUMBNAIL_WIDTH = 96; // v3.9: 페이지 썸네일 폭 (px)
+const PDF_RENDER_SCALE = 2; // 편집 캔버스 해상도 = PDF 포인트 × 2
 
 const MAX_CHAR_LIMIT = 500;
-const MAX_SELECTIONS = 10;
 const STORAGE_KEY = 'ai_slide_restore_api_key';
+const TYPO_DICTIONARY_KEY = 'ai_slide_restore_typo_dictionary';
+const OCR_LANGS = 'kor+eng';
+const OCR_MIN_CONFIDENCE = 40;
 
 type SelectionType = 'text' | 'image-ai' | 'image-replace';
+type OcrScanLevel = 'line' | 'paragraph';
+type BackgroundFillMode = 'flat' | 'gradient' | 'inpaint' | 'glyph';
+type BackgroundKind = 'solid' | 'horizontal' | 'vertical' | 'radial';
+
+// v3.7: 감지된 배경 (그라데이션이면 from → to, 원형은 중심 → 모서리)
+interface BackgroundSpec {
+  kind: BackgroundKind;
+  color: string; // 평균색 (단색 대체용)
+  from: string;
+  to: string;
+}
 
 interface SelectionArea {
   id: number;
@@ -30,6 +48,33 @@ interface SelectionArea {
   fontFamily?: string;
   textRotation?: number;  // v3.5: 텍스트 회전
   autoFitWidth?: boolean; // v3.6: 영역 너비에 맞춤
+  ocrText?: string;       // v3.6: OCR로 읽은 원문
+  ocrConfidence?: number; // v3.6: OCR 신뢰도 (0~100)
+  bgFillMode?: BackgroundFillMode; // v3.7: 원래 글자 지우는 방식 (기본 단색)
+  bgSpec?: BackgroundSpec;         // v3.7: 자동 감지된 배경 그라데이션
+  lineHeight?: number;  // v3.8: 줄 간격 (글자 크기 배수, 기본 1.2)
+  textOffsetY?: number; // v3.8: 영역 중심에서 글자 블록 중심까지 세로 거리 (px)
+  segments?: TextSegment[]; // v3.8: 부분 서식 (있으면 replacements 는 이어붙인 텍스트)
+}
+
+// v3.6: 페이지 스캔으로 찾은 텍스트 덩어리
+interface OcrBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  text: string;
+  confidence: number;
+  fontSize: number;
+}
+
+interface TextAreaAnalysis {
+  bgColor: string;
+  bgSpec: BackgroundSpec;
+  textColor: string;
+  fontSize: number;
+  lineHeight: number;
+  textOffsetY: number;
 }
 
 interface Sticker {
@@ -49,6 +94,8 @@ interface TextSegment {
   text: string;
   color: string;
   newLine?: boolean;  // v3.5: 이 세그먼트 앞에서 줄바꿈
+  bold?: boolean;     // v3.8: 텍스트 영역 부분 서식 (없으면 영역 설정)
+  fontSize?: number;  // v3.8: 텍스트 영역 부분 서식 (없으면 영역 설정)
 }
 
 interface CustomText {
@@ -64,23 +111,82 @@ interface CustomText {
   fontFamily?: string;
 }
 
+// v4.0: 선택 영역 / 스티커 / 멀티컬러 글씨를 하나의 순서로 쌓는 레이어
+type LayerKind = 'selection' | 'sticker' | 'text';
+
+interface Layer {
+  kind: LayerKind;
+  id: number;
+  name?: string;
+  hidden?: boolean;
+  locked?: boolean;
+  groupId?: number; // v4.0: 같은 값의 레이어는 함께 선택되고 함께 움직임
+}
+
+// v4.0: 캔버스에서 선택된 항목 (selectedId 와 같은 모양)
+interface LayerRef {
+  id: number;
+  type: LayerKind;
+}
+
 interface HistoryState {
   selections: SelectionArea[];
   replacements: { [key: number]: string };
   stickers: Sticker[];
   customTexts: CustomText[];
+  layers?: Layer[]; // 아래 → 위. 없거나 빠진 항목은 resolveLayers 가 채움
+}
+
+// v4.0: 히스토리 한 단계 - 상태 스냅샷 대신 바뀐 항목의 전/후만 기록
+// before 가 없으면 추가, after 가 없으면 삭제. index 는 삭제 취소/추가 다시실행 시 끼워 넣을 위치
+type HistoryItemOp =
+  | { target: 'selections'; id: number; index: number; fields: string[]; before?: SelectionArea; after?: SelectionArea }
+  | { target: 'stickers'; id: number; index: number; fields: string[]; before?: Sticker; after?: Sticker }
+  | { target: 'customTexts'; id: number; index: number; fields: string[]; before?: CustomText; after?: CustomText };
+
+type HistoryOp =
+  | HistoryItemOp
+  | { target: 'replacements'; id: number; before?: string; after?: string }
+  | { target: 'layers'; before: Layer[]; after: Layer[] };
+
+interface HistoryEntry {
+  label: string;
+  ops: HistoryOp[];
+  key: string;  // 같은 key 의 변경이 연달아 오면 한 단계로 합침 (빈 문자열은 합치지 않음)
+  time: number;
+}
+
+// v3.9: PDF 페이지별 편집 상태 (페이지 이동 시 보관)
+interface PageEditState {
+  state: HistoryState;
+  history: HistoryEntry[];
+  historyIndex: number; // v4.0: 적용된 단계 수 (0 = 처음 상태)
 }
 
 const DEFAULT_COLORS = ['#ef4444', '#eab308', '#3b82f6'];
 
-const FONT_OPTIONS = [
-  { value: 'Noto Sans KR', label: '고딕 (Noto Sans KR)' },
-  { value: 'Noto Serif KR', label: '명조 (Noto Serif KR)' },
-  { value: 'Black Han Sans', label: '굵은 고딕 (Black Han Sans)' },
-  { value: 'Jua', label: '둥근체 (Jua)' },
-  { value: 'Do Hyeon', label: '돋움체 (Do Hyeon)' },
-  { value: 'Nanum Gothic', label: '나눔고딕 (Nanum Gothic)' },
-  { value: 'Nanum Myeongjo', label: '나눔명조 (Nanum Myeongjo)' },
+// weights: loadGoogleFonts 에서 실제로 받는 굵기 (v3.8 폰트 추정에 사용)
+const FONT_OPTIONS: { value: string; label: string; weights: ('normal' | 'bold')[] }[] = [
+  { value: 'Noto Sans KR', label: '고딕 (Noto Sans KR)', weights: ['normal', 'bold'] },
+  { value: 'Noto Serif KR', label: '명조 (Noto Serif KR)', weights: ['normal', 'bold'] },
+  { value: 'Black Han Sans', label: '굵은 고딕 (Black Han Sans)', weights: ['normal'] },
+  { value: 'Jua', label: '둥근체 (Jua)', weights: ['normal'] },
+  { value: 'Do Hyeon', label: '돋움체 (Do Hyeon)', weights: ['normal'] },
+  { value: 'Nanum Gothic', label: '나눔고딕 (Nanum Gothic)', weights: ['normal', 'bold'] },
+  { value: 'Nanum Myeongjo', label: '나눔명조 (Nanum Myeongjo)', weights: ['normal', 'bold'] },
+];
+
+const BG_KIND_OPTIONS: { value: BackgroundKind; label: string }[] = [
+  { value: 'horizontal', label: '↔ 가로' },
+  { value: 'vertical', label: '↕ 세로' },
+  { value: 'radial', label: '◎ 원형' },
+];
+
+const BG_FILL_OPTIONS: { value: BackgroundFillMode; label: string }[] = [
+  { value: 'flat', label: '단색' },
+  { value: 'gradient', label: '그라데이션' },
+  { value: 'inpaint', label: '주변 복원' },
+  { value: 'glyph', label: '글자만' },
 ];
 
 // 색상 유틸리티 함수들
@@ -101,219 +207,2932 @@ const getLuminance = (r: number, g: number, b: number): number => {
   return (0.299 * r + 0.587 * g + 0.114 * b) / 255;
 };
 
-function App() {
-  const [image, setImage] = useState<string | null>(null);
-  const [originalImageData, setOriginalImageData] = useState<ImageData | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [processStep, setProcessStep] = useState<string>('');
-  const [selections, setSelections] = useState<SelectionArea[]>([]);
-  const [replacements, setReplacements] = useState<{ [key: number]: string }>({});
-  const [resultImage, setResultImage] = useState<string | null>(null);
-  
-  const [drawMode, setDrawMode] = useState<SelectionType>('text');
-  
-  const [stickers, setStickers] = useState<Sticker[]>([]);
-  const [customTexts, setCustomTexts] = useState<CustomText[]>([]);
-  const [selectedId, setSelectedId] = useState<{id: number, type: 'sticker' | 'text' | 'selection'} | null>(null);
-
-  const [isKeySelected, setIsKeySelected] = useState<boolean | null>(null);
-  const [manualKey, setManualKey] = useState<string>('');
-  const [showManualInput, setShowManualInput] = useState(false);
-  const [keySaved, setKeySaved] = useState(false);
-
-  const [history, setHistory] = useState<HistoryState[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  
-  const [eyedropperMode, setEyedropperMode] = useState<{active: boolean, selectionId: number | null, target: 'text' | 'bg'}>({active: false, selectionId: null, target: 'text'});
+// =====================================================
+// 🧱 v3.7: 배경 복원 (단색 / 그라데이션 / 인페인팅)
+// =====================================================
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
 
-  const [pdfDoc, setPdfDoc] = useState<any>(null);
-  const [currentPageNum, setCurrentPageNum] = useState(1);
-  const [numPages, setNumPages] = useState(0);
+interface InpaintPatch {
+  canvas: HTMLCanvasElement;
+  x: number;
+  y: number;
+}
 
-  const [autoAnalyzeEnabled, setAutoAnalyzeEnabled] = useState(true);
-  
-  // v3.4: 실시간 미리보기 토글
-  const [previewEnabled, setPreviewEnabled] = useState(true);
+const INPAINT_GRID = 48;      // 확산 계산 격자 최대 크기 (속도)
+const INPAINT_ITERATIONS = 120;
+
+const colorDistance = (a: Rgb, b: Rgb): number => Math.abs(a.r - b.r) + Math.abs(a.g - b.g) + Math.abs(a.b - b.b);
+
+const rgbToCss = (c: Rgb): string => rgbToHex(Math.round(c.r), Math.round(c.g), Math.round(c.b));
+
+// [x0,x1) × [y0,y1) 평균색 (이미지 밖 좌표는 가장자리로 고정)
+const averageImageRect = (imageData: ImageData, x0: number, y0: number, x1: number, y1: number): Rgb => {
+  const { width, height, data } = imageData;
+  const xs = Math.max(0, Math.min(width - 1, Math.floor(x0)));
+  const ys = Math.max(0, Math.min(height - 1, Math.floor(y0)));
+  const xe = Math.max(xs + 1, Math.min(width, Math.ceil(x1)));
+  const ye = Math.max(ys + 1, Math.min(height, Math.ceil(y1)));
+  const step = Math.max(1, Math.floor(Math.max(xe - xs, ye - ys) / 32));
+
+  let r = 0, g = 0, b = 0, n = 0;
+  for (let py = ys; py < ye; py += step) {
+    for (let px = xs; px < xe; px += step) {
+      const i = (py * width + px) * 4;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      n++;
+    }
+  }
+  return { r: r / n, g: g / n, b: b / n };
+};
 
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
-  const resultRef = useRef<HTMLDivElement>(null);
-  const isDrawing = useRef(false);
-  const isMoving = useRef(false);
-  const startPos = useRef({ x: 0, y: 0 });
-  const stickerImagesRef = useRef<Map<number, HTMLImageElement>>(new Map());
-  const replacementImagesRef = useRef<Map<number, HTMLImageElement>>(new Map());
+// 영역 바로 바깥 테두리(ring px 두께)의 각 변 평균색
+const sampleEdgeColors = (imageData: ImageData, x: number, y: number, w: number, h: number, ring = 3) => ({
+  left: averageImageRect(imageData, x - ring, y, x, y + h),
+  right: averageImageRect(imageData, x + w, y, x + w + ring, y + h),
+  top: averageImageRect(imageData, x, y - ring, x + w, y),
+  bottom: averageImageRect(imageData, x, y + h, x + w, y + h + ring),
+});
+
+const mixRgb = (a: Rgb, b: Rgb, t = 0.5): Rgb => ({
+  r: a.r + (b.r - a.r) * t,
+  g: a.g + (b.g - a.g) * t,
+  b: a.b + (b.b - a.b) * t,
+});
+
+// 테두리 바깥 색으로 만든 선형 그라데이션 (감지 결과가 없을 때)
+const edgeGradientSpec = (imageData: ImageData, x: number, y: number, w: number, h: number): BackgroundSpec => {
+  const edges = sampleEdgeColors(imageData, x, y, w, h);
+  const horizontal = colorDistance(edges.left, edges.right) >= colorDistance(edges.top, edges.bottom);
+  const from = horizontal ? edges.left : edges.top;
+  const to = horizontal ? edges.right : edges.bottom;
+  return {
+    kind: horizontal ? 'horizontal' : 'vertical',
+    color: rgbToCss(mixRgb(from, to)),
+    from: rgbToCss(from),
+    to: rgbToCss(to),
+  };
+};
 
-  useEffect(() => {
-    // v3.5.5: 브라우저 탭 타이틀 설정
-    document.title = '록신 이미지 에디터 v3.5.5';
-    
-    checkInitialKeyStatus();
-    loadPdfLibrary();
-    loadGoogleFonts();
-    const savedKey = localStorage.getItem(STORAGE_KEY);
-    if (savedKey) {
-      setManualKey(savedKey);
-      setKeySaved(true);
+// 영역 중심 기준 좌표계에서 w×h 사각형을 배경 스펙으로 채움
+const fillBackgroundSpec = (ctx: CanvasRenderingContext2D, spec: BackgroundSpec, w: number, h: number) => {
+  if (spec.kind === 'solid') {
+    ctx.fillStyle = spec.color;
+  } else {
+    let gradient: CanvasGradient;
+    if (spec.kind === 'horizontal') {
+      gradient = ctx.createLinearGradient(-w / 2, 0, w / 2, 0);
+      gradient.addColorStop(0, spec.from);
+    } else if (spec.kind === 'vertical') {
+      gradient = ctx.createLinearGradient(0, -h / 2, 0, h / 2);
+      gradient.addColorStop(0, spec.from);
+    } else {
+      // 변의 중앙(짧은 변 기준 반지름)까지는 from, 모서리에서 to
+      const cornerRadius = Math.hypot(w, h) / 2;
+      gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, cornerRadius);
+      gradient.addColorStop(0, spec.from);
+      gradient.addColorStop(Math.min(w, h) / 2 / cornerRadius, spec.from);
     }
-  }, []);
+    gradient.addColorStop(1, spec.to);
+    ctx.fillStyle = gradient;
+  }
+  ctx.fillRect(-w / 2, -h / 2, w, h);
+};
 
-  const loadGoogleFonts = () => {
-    const link = document.createElement('link');
-    link.href = 'https://fonts.googleapis.com/css2?family=Noto+Sans+KR:wght@400;700&family=Noto+Serif+KR:wght@400;700&family=Black+Han+Sans&family=Jua&family=Do+Hyeon&family=Nanum+Gothic:wght@400;700&family=Nanum+Myeongjo:wght@400;700&display=swap';
-    link.rel = 'stylesheet';
-    document.head.appendChild(link);
+// 회전된 영역을 감싸는 축 정렬 사각형
+const getRotatedBounds = (x: number, y: number, w: number, h: number, rotation: number) => {
+  const rad = (rotation * Math.PI) / 180;
+  const bw = Math.abs(w * Math.cos(rad)) + Math.abs(h * Math.sin(rad));
+  const bh = Math.abs(w * Math.sin(rad)) + Math.abs(h * Math.cos(rad));
+  return { x: x + w / 2 - bw / 2, y: y + h / 2 - bh / 2, w: bw, h: bh };
+};
+
+// 확산(라플라스) 인페인팅: 테두리 색을 경계값으로 두고 내부를 부드럽게 채움
+// 거친 격자에서 풀고 쌍선형 보간으로 키워서 드래그 중에도 빠르게 동작
+const inpaintRegion = (imageData: ImageData, x: number, y: number, w: number, h: number): InpaintPatch | null => {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(imageData.width, Math.ceil(x + w));
+  const y1 = Math.min(imageData.height, Math.ceil(y + h));
+  const pw = x1 - x0;
+  const ph = y1 - y0;
+  if (pw <= 0 || ph <= 0) return null;
+
+  const scale = Math.min(1, INPAINT_GRID / Math.max(pw, ph));
+  const gw = Math.max(2, Math.round(pw * scale));
+  const gh = Math.max(2, Math.round(ph * scale));
+  const GW = gw + 2;
+  const GH = gh + 2;
+  const cellW = pw / gw;
+  const cellH = ph / gh;
+  const grid = [new Float32Array(GW * GH), new Float32Array(GW * GH), new Float32Array(GW * GH)];
+
+  const setCell = (c: number, r: number, color: Rgb) => {
+    grid[0][r * GW + c] = color.r;
+    grid[1][r * GW + c] = color.g;
+    grid[2][r * GW + c] = color.b;
   };
 
-  // =====================================================
-  // 🚀 v3.2 핵심: 초고속 자동 분석 (OCR 없음!)
-  // =====================================================
-  const analyzeTextAreaFast = (x: number, y: number, w: number, h: number): { bgColor: string; textColor: string; fontSize: number } => {
-    if (!originalCanvasRef.current) {
-      return { bgColor: '#ffffff', textColor: '#000000', fontSize: Math.round(h * 0.7) };
+  // 경계: 영역 바깥 1~2px 줄의 평균
+  for (let c = 1; c <= gw; c++) {
+    const xa = x0 + (c - 1) * cellW;
+    setCell(c, 0, averageImageRect(imageData, xa, y0 - 2, xa + cellW, y0));
+    setCell(c, GH - 1, averageImageRect(imageData, xa, y1, xa + cellW, y1 + 2));
+  }
+  for (let r = 0; r < GH; r++) {
+    const ya = y0 + (Math.min(gh, Math.max(1, r)) - 1) * cellH;
+    setCell(0, r, averageImageRect(imageData, x0 - 2, ya, x0, ya + cellH));
+    setCell(GW - 1, r, averageImageRect(imageData, x1, ya, x1 + 2, ya + cellH));
+  }
+
+  // 초기값: 가로/세로 선형 보간의 평균
+  for (let ch = 0; ch < 3; ch++) {
+    const g = grid[ch];
+    for (let r = 1; r <= gh; r++) {
+      for (let c = 1; c <= gw; c++) {
+        const tx = c / (GW - 1);
+        const ty = r / (GH - 1);
+        const horizontal = g[r * GW] * (1 - tx) + g[r * GW + GW - 1] * tx;
+        const vertical = g[c] * (1 - ty) + g[(GH - 1) * GW + c] * ty;
+        g[r * GW + c] = (horizontal + vertical) / 2;
+      }
     }
+    for (let it = 0; it < INPAINT_ITERATIONS; it++) {
+      for (let r = 1; r <= gh; r++) {
+        for (let c = 1; c <= gw; c++) {
+          const i = r * GW + c;
+          g[i] = (g[i - 1] + g[i + 1] + g[i - GW] + g[i + GW]) / 4;
+        }
+      }
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = pw;
+  canvas.height = ph;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(pw, ph);
+
+  for (let py = 0; py < ph; py++) {
+    const v = ((py + 0.5) * gh) / ph + 0.5;
+    const r0 = Math.floor(v);
+    const fy = v - r0;
+    for (let px = 0; px < pw; px++) {
+      const u = ((px + 0.5) * gw) / pw + 0.5;
+      const c0 = Math.floor(u);
+      const fx = u - c0;
+      const i00 = r0 * GW + c0;
+      const o = (py * pw + px) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const g = grid[ch];
+        const top = g[i00] * (1 - fx) + g[i00 + 1] * fx;
+        const bottom = g[i00 + GW] * (1 - fx) + g[i00 + GW + 1] * fx;
+        out.data[o + ch] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
 
-    const ctx = originalCanvasRef.current.getContext('2d')!;
-    const canvasWidth = originalCanvasRef.current.width;
-    const canvasHeight = originalCanvasRef.current.height;
+  ctx.putImageData(out, 0, 0);
+  return { canvas, x: x0, y: y0 };
+};
 
-    // 안전한 좌표 계산
-    const safeX = Math.max(0, Math.min(Math.round(x), canvasWidth - 1));
-    const safeY = Math.max(0, Math.min(Math.round(y), canvasHeight - 1));
-    const safeW = Math.min(Math.round(w), canvasWidth - safeX);
-    const safeH = Math.min(Math.round(h), canvasHeight - safeY);
+// v3.7: 글자 획만 지우기
+// 픽셀이 글자색↔배경색 선분 위(안티앨리어싱 포함)에 있고 글자색 쪽에 가까우면 글자로 보고,
+// 그 픽셀만 바깥쪽 이웃부터 한 겹씩 채워 넣음 (아이콘/테두리 등 다른 색은 그대로 남음)
+const GLYPH_LINE_TOLERANCE = 60;  // 선분에서 벗어나도 되는 거리
+const GLYPH_CORE_T = 0.6;         // 0 = 글자색, 1 = 배경색
+const GLYPH_FRINGE_T = 0.9;       // 번짐 픽셀로 볼 범위 (팽창 단계)
+
+// 정수 영역 (x0, y0, pw, ph) 각 픽셀의 선분 위 위치 t (선분에서 벗어나면 Infinity)
+// 글자색/배경색이 너무 비슷하면 null
+const classifyGlyphPixels = (
+  imageData: ImageData,
+  x0: number,
+  y0: number,
+  pw: number,
+  ph: number,
+  textColor: Rgb,
+  bgColor: Rgb
+): Float32Array | null => {
+  const dr = bgColor.r - textColor.r;
+  const dg = bgColor.g - textColor.g;
+  const db = bgColor.b - textColor.b;
+  const lengthSq = dr * dr + dg * dg + db * db;
+  if (lengthSq < 30 * 30) return null;
+
+  const position = new Float32Array(pw * ph);
+  for (let py = 0; py < ph; py++) {
+    for (let px = 0; px < pw; px++) {
+      const src = ((y0 + py) * imageData.width + x0 + px) * 4;
+      const r = imageData.data[src];
+      const g = imageData.data[src + 1];
+      const b = imageData.data[src + 2];
+      const t = ((r - textColor.r) * dr + (g - textColor.g) * dg + (b - textColor.b) * db) / lengthSq;
+      const off = Math.hypot(textColor.r + dr * t - r, textColor.g + dg * t - g, textColor.b + db * t - b);
+      position[py * pw + px] = off <= GLYPH_LINE_TOLERANCE ? t : Infinity;
+    }
+  }
+  return position;
+};
 
-    if (safeW <= 0 || safeH <= 0) {
-      return { bgColor: '#ffffff', textColor: '#000000', fontSize: Math.round(h * 0.7) };
+const eraseGlyphs = (
+  imageData: ImageData,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  textColor: Rgb,
+  bgColor: Rgb
+): InpaintPatch | null => {
+  const margin = 2; // 바깥 이웃을 참조할 여유
+  const x0 = Math.max(0, Math.floor(x) - margin);
+  const y0 = Math.max(0, Math.floor(y) - margin);
+  const x1 = Math.min(imageData.width, Math.ceil(x + w) + margin);
+  const y1 = Math.min(imageData.height, Math.ceil(y + h) + margin);
+  const pw = x1 - x0;
+  const ph = y1 - y0;
+  if (pw <= 0 || ph <= 0) return null;
+
+  const position = classifyGlyphPixels(imageData, x0, y0, pw, ph, textColor, bgColor);
+  if (!position) return null; // 글자/배경 구분 불가
+
+  const pixels = new Float32Array(pw * ph * 3);
+  for (let py = 0; py < ph; py++) {
+    for (let px = 0; px < pw; px++) {
+      const src = ((y0 + py) * imageData.width + x0 + px) * 4;
+      const i = py * pw + px;
+      pixels[i * 3] = imageData.data[src];
+      pixels[i * 3 + 1] = imageData.data[src + 1];
+      pixels[i * 3 + 2] = imageData.data[src + 2];
     }
+  }
 
-    // 1. 배경색 감지: 가장자리 픽셀 샘플링 (매우 빠름)
-    const bgColor = detectBackgroundColorFast(ctx, safeX, safeY, safeW, safeH);
-    
-    // 2. 글자색 감지: 배경과 대비되는 색상 찾기
-    const textColor = detectTextColorFast(ctx, safeX, safeY, safeW, safeH, bgColor);
-    
-    // 3. 글자 크기: 영역 높이 기반 추정 (즉시)
-    const fontSize = Math.round(safeH * 0.7);
+  // 선택 영역 안쪽만 마스크 대상
+  const inside = (px: number, py: number) =>
+    x0 + px >= x && x0 + px < x + w && y0 + py >= y && y0 + py < y + h;
 
-    return { bgColor, textColor, fontSize: Math.max(12, Math.min(200, fontSize)) };
-  };
+  const mask = new Uint8Array(pw * ph);
+  for (let py = 0; py < ph; py++) {
+    for (let px = 0; px < pw; px++) {
+      if (inside(px, py) && position[py * pw + px] < GLYPH_CORE_T) mask[py * pw + px] = 1;
+    }
+  }
+
+  // 1px 팽창: 획 주변 번짐 픽셀 포함
+  const core = mask.slice();
+  for (let py = 0; py < ph; py++) {
+    for (let px = 0; px < pw; px++) {
+      const i = py * pw + px;
+      if (core[i] || !inside(px, py) || position[i] >= GLYPH_FRINGE_T) continue;
+      const nearCore =
+        (px > 0 && core[i - 1]) || (px < pw - 1 && core[i + 1]) || (py > 0 && core[i - pw]) || (py < ph - 1 && core[i + pw]);
+      if (nearCore) mask[i] = 1;
+    }
+  }
+
+  // 바깥쪽부터 한 겹씩: 이미 아는 이웃(8방향)의 평균으로 채움
+  const known = new Uint8Array(pw * ph);
+  let remaining = 0;
+  for (let i = 0; i < known.length; i++) {
+    known[i] = mask[i] ? 0 : 1;
+    if (mask[i]) remaining++;
+  }
+
+  while (remaining > 0) {
+    const layer: number[] = [];
+    for (let py = 0; py < ph; py++) {
+      for (let px = 0; px < pw; px++) {
+        const i = py * pw + px;
+        if (known[i]) continue;
+        let r = 0, g = 0, b = 0, n = 0;
+        for (let oy = -1; oy <= 1; oy++) {
+          for (let ox = -1; ox <= 1; ox++) {
+            const nx = px + ox;
+            const ny = py + oy;
+            if (nx < 0 || ny < 0 || nx >= pw || ny >= ph) continue;
+            const j = ny * pw + nx;
+            if (!known[j]) continue;
+            r += pixels[j * 3];
+            g += pixels[j * 3 + 1];
+            b += pixels[j * 3 + 2];
+            n++;
+          }
+        }
+        if (n > 0) {
+          pixels[i * 3] = r / n;
+          pixels[i * 3 + 1] = g / n;
+          pixels[i * 3 + 2] = b / n;
+          layer.push(i);
+        }
+      }
+    }
+    if (layer.length === 0) break;
+    layer.forEach((i) => (known[i] = 1));
+    remaining -= layer.length;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = pw;
+  canvas.height = ph;
+  const ctx = canvas.getContext('2d')!;
+  const out = ctx.createImageData(pw, ph);
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue; // 마스크 밖은 투명 → 원본 유지
+    out.data[i * 4] = pixels[i * 3];
+    out.data[i * 4 + 1] = pixels[i * 3 + 1];
+    out.data[i * 4 + 2] = pixels[i * 3 + 2];
+    out.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(out, 0, 0);
+  return { canvas, x: x0, y: y0 };
+};
 
-  // 초고속 배경색 감지: 가장자리 픽셀만 샘플링
-  const detectBackgroundColorFast = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number): string => {
-    const samples: number[][] = [];
-    
-    // 4개 모서리 + 4개 변의 중간점 = 8개 포인트만 샘플링
-    const points = [
-      [x + 2, y + 2],           // 좌상
-      [x + w - 2, y + 2],       // 우상
-      [x + 2, y + h - 2],       // 좌하
-      [x + w - 2, y + h - 2],   // 우하
-      [x + w/2, y + 2],         // 상단 중앙
-      [x + w/2, y + h - 2],     // 하단 중앙
-      [x + 2, y + h/2],         // 좌측 중앙
-      [x + w - 2, y + h/2],     // 우측 중앙
-    ];
+// =====================================================
+// 🔠 v3.8: 원본 글자 모양으로 폰트 추정
+// =====================================================
+interface InkLine {
+  top: number;    // 잉크가 있는 첫 행
+  bottom: number; // 잉크가 있는 마지막 행 + 1
+}
 
-    points.forEach(([px, py]) => {
-      try {
-        const pixel = ctx.getImageData(Math.round(px), Math.round(py), 1, 1).data;
-        samples.push([pixel[0], pixel[1], pixel[2]]);
-      } catch (e) {}
-    });
+interface GlyphFeatures {
+  aspect: number; // 잉크 폭 / 잉크 높이
+  stroke: number; // 획 두께 / 잉크 높이
+  body: number;   // 열별 잉크 높이 중앙값 / 잉크 높이 (x-height 비슷한 값)
+  grid: Float32Array;
+}
 
-    if (samples.length === 0) return '#ffffff';
+const GLYPH_INK_RATIO = 0.9; // 한글 잉크 높이 ≈ 글자 크기의 0.9
+const DEFAULT_LINE_HEIGHT = 1.2;
+
+const FONT_MATCH_GRID_W = 48;
+const FONT_MATCH_GRID_H = 12;
+const FONT_MATCH_SIZE = 100;
+
+// 행 투영으로 잉크가 있는 줄 구간 찾기
+const findInkLines = (mask: Uint8Array, width: number, height: number): InkLine[] => {
+  const lines: InkLine[] = [];
+  let top = -1;
+  for (let py = 0; py <= height; py++) {
+    let hasInk = false;
+    if (py < height) {
+      for (let px = 0; px < width; px++) {
+        if (mask[py * width + px]) {
+          hasInk = true;
+          break;
+        }
+      }
+    }
+    if (hasInk && top === -1) top = py;
+    if (!hasInk && top !== -1) {
+      if (py - top >= 2) lines.push({ top, bottom: py });
+      top = -1;
+    }
+  }
+  return lines;
+};
 
-    // 평균색 계산
-    const avgR = Math.round(samples.reduce((sum, p) => sum + p[0], 0) / samples.length);
-    const avgG = Math.round(samples.reduce((sum, p) => sum + p[1], 0) / samples.length);
-    const avgB = Math.round(samples.reduce((sum, p) => sum + p[2], 0) / samples.length);
+// 잉크 줄 위치로 글자 크기 / 줄 간격 / 세로 위치 추정
+// 기준선(마지막 줄 잉크 하단)과 첫 줄 상단 사이 가운데가 새 글자 블록의 중심이 되도록 맞춤
+const measureInkLayout = (
+  mask: Uint8Array,
+  width: number,
+  height: number
+): { fontSize: number; lineHeight: number; textOffsetY: number } | null => {
+  const found = findInkLines(mask, width, height);
+  if (found.length === 0) return null;
+
+  // 점/밑줄 같은 얇은 줄은 제외
+  const tallest = Math.max(...found.map((l) => l.bottom - l.top));
+  const lines = found.filter((l) => l.bottom - l.top >= tallest * 0.4);
+  const heights = lines.map((l) => l.bottom - l.top).sort((a, b) => a - b);
+  const fontSize = heights[Math.floor(heights.length / 2)] / GLYPH_INK_RATIO;
+
+  let lineHeight = DEFAULT_LINE_HEIGHT;
+  if (lines.length > 1) {
+    const pitch = (lines[lines.length - 1].top - lines[0].top) / (lines.length - 1);
+    lineHeight = Math.max(0.8, Math.min(3, pitch / fontSize));
+  }
+
+  const baseline = lines[lines.length - 1].bottom;
+  return {
+    fontSize,
+    lineHeight: Math.round(lineHeight * 100) / 100,
+    textOffsetY: Math.round((lines[0].top + baseline) / 2 - height / 2),
+  };
+};
 
-    return rgbToHex(avgR, avgG, avgB);
+// 첫 번째 줄의 모양 특징 (여러 줄이어도 첫 줄끼리만 비교)
+const extractGlyphFeatures = (mask: Uint8Array, width: number, height: number): GlyphFeatures | null => {
+  const line = findInkLines(mask, width, height)[0];
+  if (!line) return null;
+
+  let left = width;
+  let right = -1;
+  for (let py = line.top; py < line.bottom; py++) {
+    for (let px = 0; px < width; px++) {
+      if (mask[py * width + px]) {
+        left = Math.min(left, px);
+        right = Math.max(right, px);
+      }
+    }
+  }
+  const inkW = right - left + 1;
+  const inkH = line.bottom - line.top;
+  if (inkW <= 0) return null;
+
+  // 획 두께: 가로/세로 잉크 연속 구간 길이의 평균
+  let runSum = 0;
+  let runCount = 0;
+  const columnHeights: number[] = [];
+  for (let py = line.top; py < line.bottom; py++) {
+    let run = 0;
+    for (let px = left; px <= right + 1; px++) {
+      if (px <= right && mask[py * width + px]) run++;
+      else if (run > 0) {
+        runSum += run;
+        runCount++;
+        run = 0;
+      }
+    }
+  }
+  for (let px = left; px <= right; px++) {
+    let run = 0;
+    let first = -1;
+    let last = -1;
+    for (let py = line.top; py <= line.bottom; py++) {
+      if (py < line.bottom && mask[py * width + px]) {
+        run++;
+        if (first === -1) first = py;
+        last = py;
+      } else if (run > 0) {
+        runSum += run;
+        runCount++;
+        run = 0;
+      }
+    }
+    if (first !== -1) columnHeights.push(last - first + 1);
+  }
+  columnHeights.sort((a, b) => a - b);
+
+  // 잉크 박스를 고정 격자로 줄인 잉크 비율
+  const grid = new Float32Array(FONT_MATCH_GRID_W * FONT_MATCH_GRID_H);
+  const counts = new Float32Array(grid.length);
+  for (let py = line.top; py < line.bottom; py++) {
+    const gy = Math.min(FONT_MATCH_GRID_H - 1, Math.floor(((py - line.top) * FONT_MATCH_GRID_H) / inkH));
+    for (let px = left; px <= right; px++) {
+      const gx = Math.min(FONT_MATCH_GRID_W - 1, Math.floor(((px - left) * FONT_MATCH_GRID_W) / inkW));
+      grid[gy * FONT_MATCH_GRID_W + gx] += mask[py * width + px];
+      counts[gy * FONT_MATCH_GRID_W + gx]++;
+    }
+  }
+  for (let i = 0; i < grid.length; i++) grid[i] = counts[i] ? grid[i] / counts[i] : 0;
+
+  return {
+    aspect: inkW / inkH,
+    stroke: runCount ? runSum / runCount / inkH : 0,
+    body: columnHeights.length ? columnHeights[Math.floor(columnHeights.length / 2)] / inkH : 1,
+    grid,
   };
+};
 
-  // 초고속 글자색 감지: 중앙 영역 샘플링 후 배경과 대비
-  const detectTextColorFast = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, bgColor: string): string => {
-    const bgRgb = hexToRgb(bgColor);
-    if (!bgRgb) return '#000000';
+const glyphFeatureDistance = (a: GlyphFeatures, b: GlyphFeatures): number => {
+  let gridDiff = 0;
+  for (let i = 0; i < a.grid.length; i++) gridDiff += Math.abs(a.grid[i] - b.grid[i]);
+  gridDiff /= a.grid.length;
 
-    // 중앙 영역 샘플링
-    const centerX = x + w / 2;
-    const centerY = y + h / 2;
-    const sampleRadius = Math.min(w, h) / 4;
-    
-    const samples: number[][] = [];
-    for (let i = 0; i < 5; i++) {
-      const angle = (i / 5) * Math.PI * 2;
-      const px = centerX + Math.cos(angle) * sampleRadius;
-      const py = centerY + Math.sin(angle) * sampleRadius;
-      try {
-        const pixel = ctx.getImageData(Math.round(px), Math.round(py), 1, 1).data;
-        samples.push([pixel[0], pixel[1], pixel[2]]);
-      } catch (e) {}
-    }
+  const relative = (x: number, y: number) => Math.abs(x - y) / Math.max(y, 0.01);
+  return gridDiff + relative(b.aspect, a.aspect) * 0.5 + relative(b.stroke, a.stroke) * 0.5 + Math.abs(b.body - a.body) * 0.5;
+};
 
-    // 배경과 가장 다른 색상 찾기
-    let maxDiff = 0;
-    let bestColor = '#000000';
-    
-    samples.forEach(([r, g, b]) => {
-      const diff = Math.abs(r - bgRgb.r) + Math.abs(g - bgRgb.g) + Math.abs(b - bgRgb.b);
-      if (diff > maxDiff) {
-        maxDiff = diff;
-        bestColor = rgbToHex(r, g, b);
-      }
-    });
+// 후보 폰트로 글자를 그려 같은 특징을 뽑음 (검정 글자 / 흰 배경)
+const renderGlyphFeatures = (text: string, font: string): GlyphFeatures | null => {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = font;
+  canvas.width = Math.ceil(ctx.measureText(text).width) + 20;
+  canvas.height = Math.round(FONT_MATCH_SIZE * 1.6);
+  if (canvas.width <= 20) return null;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#000000';
+  ctx.font = font;
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(text, 10, FONT_MATCH_SIZE * 1.2);
+
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  const mask = new Uint8Array(canvas.width * canvas.height);
+  for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4] < 128 ? 1 : 0;
+  return extractGlyphFeatures(mask, canvas.width, canvas.height);
+};
 
-    // 대비가 충분하지 않으면 배경 밝기에 따라 검정/흰색
-    if (maxDiff < 100) {
-      const bgLuminance = getLuminance(bgRgb.r, bgRgb.g, bgRgb.b);
-      return bgLuminance > 0.5 ? '#000000' : '#ffffff';
+// FONT_OPTIONS 의 모든 폰트/굵기 중 원본과 가장 비슷한 것
+const matchFont = async (
+  imageData: ImageData,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  textColor: Rgb,
+  bgColor: Rgb,
+  text: string
+): Promise<{ fontFamily: string; fontWeight: 'normal' | 'bold' } | null> => {
+  const line = text.split('\n').find((l) => l.trim() !== '')?.trim();
+  const x0 = Math.max(0, Math.round(x));
+  const y0 = Math.max(0, Math.round(y));
+  const pw = Math.min(Math.round(w), imageData.width - x0);
+  const ph = Math.min(Math.round(h), imageData.height - y0);
+  if (!line || pw <= 0 || ph <= 0) return null;
+
+  const position = classifyGlyphPixels(imageData, x0, y0, pw, ph, textColor, bgColor);
+  if (!position) return null;
+  const mask = Uint8Array.from(position, (t) => (t < GLYPH_CORE_T ? 1 : 0));
+  const target = extractGlyphFeatures(mask, pw, ph);
+  if (!target) return null;
+
+  let best: { fontFamily: string; fontWeight: 'normal' | 'bold'; distance: number } | null = null;
+  for (const option of FONT_OPTIONS) {
+    for (const weight of option.weights) {
+      const font = `${weight} ${FONT_MATCH_SIZE}px "${option.value}"`;
+      await document.fonts.load(font, line).catch(() => {});
+      if (!document.fonts.check(font, line)) continue; // 아직 못 받은 폰트는 제외
+
+      const candidate = renderGlyphFeatures(line, font);
+      if (!candidate) continue;
+      const distance = glyphFeatureDistance(target, candidate);
+      if (!best || distance < best.distance) {
+        best = { fontFamily: option.value, fontWeight: weight, distance };
+      }
     }
+  }
 
-    return bestColor;
+  return best && { fontFamily: best.fontFamily, fontWeight: best.fontWeight };
+};
+
+// =====================================================
+// 🌈 v3.8: 부분 서식 텍스트 (구간별 색상/굵기/크기)
+// =====================================================
+interface TextRun {
+  text: string;
+  font: string;
+  color: string;
+  size: number;
+  width: number;
+}
+
+interface TextLine {
+  runs: TextRun[];
+  width: number;
+  size: number; // 줄에서 가장 큰 글자 크기
+}
+
+const segmentsToText = (segments: TextSegment[]): string =>
+  segments.map((seg, idx) => (idx > 0 && seg.newLine ? '\n' : '') + seg.text).join('');
+
+// segmentsToText 결과가 max 글자를 넘지 않도록 뒤쪽 구간을 자름 (교정 텍스트와 구간을 같은 길이로 유지)
+const limitSegments = (segments: TextSegment[], max: number): TextSegment[] => {
+  const limited: TextSegment[] = [];
+  let length = 0;
+  for (const [idx, seg] of segments.entries()) {
+    length += idx > 0 && seg.newLine ? 1 : 0;
+    if (length > max) break;
+    const room = max - length;
+    limited.push(seg.text.length > room ? { ...seg, text: seg.text.slice(0, room) } : seg);
+    length += seg.text.length;
+    if (length >= max) break;
+  }
+  return limited;
+};
+
+// 글자 단위 줄바꿈 (Enter / newLine 구간 지원) - 구간이 줄을 넘어가도 서식은 그대로
+const layoutRichText = (
+  ctx: CanvasRenderingContext2D,
+  segments: TextSegment[],
+  base: { fontSize: number; fontWeight: 'normal' | 'bold'; fontFamily: string },
+  maxWidth: number
+): TextLine[] => {
+  const lines: TextLine[] = [];
+  let runs: TextRun[] = [];
+  let lineWidth = 0;
+  let lastSize = base.fontSize;
+
+  const pushLine = () => {
+    lines.push({ runs, width: lineWidth, size: runs.length ? Math.max(...runs.map((r) => r.size)) : lastSize });
+    runs = [];
+    lineWidth = 0;
   };
 
-  // 주변 배경색 감지 (이미지 대체용)
-  const detectSurroundingColor = (x: number, y: number, w: number, h: number): string => {
-    if (!originalCanvasRef.current) return '#ffffff';
-    
-    const ctx = originalCanvasRef.current.getContext('2d')!;
-    const canvasWidth = originalCanvasRef.current.width;
-    const canvasHeight = originalCanvasRef.current.height;
-    
-    const samples: number[][] = [];
-    const margin = 10;
-    
-    // 선택 영역 바깥의 픽셀 샘플링
-    const points = [
-      [x - margin, y + h/2],
-      [x + w + margin, y + h/2],
-      [x + w/2, y - margin],
-      [x + w/2, y + h + margin],
-    ];
-    
-    points.forEach(([px, py]) => {
-      if (px >= 0 && px < canvasWidth && py >= 0 && py < canvasHeight) {
-        try {
-          const pixel = ctx.getImageData(Math.round(px), Math.round(py), 1, 1).data;
-          samples.push([pixel[0], pixel[1], pixel[2]]);
-        } catch (e) {}
+  segments.forEach((seg, idx) => {
+    if (idx > 0 && seg.newLine) pushLine();
+
+    const size = seg.fontSize || base.fontSize;
+    const weight = seg.bold === undefined ? base.fontWeight : seg.bold ? 'bold' : 'normal';
+    const font = `${weight} ${size}px ${base.fontFamily}`;
+    ctx.font = font;
+    lastSize = size;
+
+    let run = '';
+    const flush = () => {
+      if (!run) return;
+      const width = ctx.measureText(run).width;
+      runs.push({ text: run, font, color: seg.color, size, width });
+      lineWidth += width;
+      run = '';
+    };
+
+    seg.text.split('').forEach((char) => {
+      if (char === '\n') {
+        flush();
+        pushLine();
+        return;
+      }
+      const testWidth = lineWidth + ctx.measureText(run + char).width;
+      if (testWidth > maxWidth && (lineWidth > 0 || run !== '')) {
+        flush();
+        pushLine();
+        run = char;
+      } else {
+        run += char;
       }
     });
-    
-    if (samples.length === 0) return '#ffffff';
-    
-    const avgR = Math.round(samples.reduce((sum, p) => sum + p[0], 0) / samples.length);
-    const avgG = Math.round(samples.reduce((sum, p) => sum + p[1], 0) / samples.length);
-    const avgB = Math.round(samples.reduce((sum, p) => sum + p[2], 0) / samples.length);
-    
-    return rgbToHex(avgR, avgG, avgB);
+    flush();
+  });
+  pushLine();
+
+  return lines;
+};
+
+const layoutSelectionText = (ctx: CanvasRenderingContext2D, sel: SelectionArea, text: string) => {
+  const segments = sel.segments?.length ? sel.segments : [{ text, color: sel.textColor || '#000000' }];
+  // v3.5.1: 패딩 최소화 (sel.w - 4)
+  const lines = layoutRichText(
+    ctx,
+    segments,
+    { fontSize: sel.fontSize || 32, fontWeight: sel.fontWeight || 'normal', fontFamily: sel.fontFamily || 'Noto Sans KR' },
+    sel.w - 4
+  );
+  const lineHeights = lines.map((line) => line.size * (sel.lineHeight || DEFAULT_LINE_HEIGHT));
+  const totalHeight = lineHeights.reduce((sum, lh) => sum + lh, 0);
+  return { lines, lineHeights, totalHeight };
+};
+
+// v4.0: 글자가 영역 밖으로 넘치는 범위까지 포함한 크기 (중심 기준 반폭/반높이)
+const measureSelectionText = (ctx: CanvasRenderingContext2D, sel: SelectionArea, text: string) => {
+  const { lines, totalHeight } = layoutSelectionText(ctx, sel, text);
+  const width = Math.max(0, ...lines.map((line) => line.width));
+  return {
+    halfW: Math.max(sel.w, width) / 2,
+    halfH: Math.max(sel.h / 2, totalHeight / 2 + Math.abs(sel.textOffsetY || 0)),
   };
+};
 
-  const checkInitialKeyStatus = async () => {
-    if ((window as any).aistudio?.getSelectedApiKey) {
-      try {
+// 텍스트 영역 글자 그리기 - 영역 중심으로 translate/rotate 된 상태에서 호출
+const drawSelectionText = (ctx: CanvasRenderingContext2D, sel: SelectionArea, text: string) => {
+  const { lines, lineHeights, totalHeight } = layoutSelectionText(ctx, sel, text);
+  let top = -totalHeight / 2 + (sel.textOffsetY || 0);
+
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  lines.forEach((line, idx) => {
+    const centerY = top + lineHeights[idx] / 2;
+    let x =
+      sel.textAlign === 'left'
+        ? -sel.w / 2 + 2
+        : sel.textAlign === 'right'
+        ? sel.w / 2 - 2 - line.width
+        : -line.width / 2;
+    line.runs.forEach((run) => {
+      ctx.font = run.font;
+      ctx.fillStyle = run.color;
+      ctx.fillText(run.text, x, centerY);
+      x += run.width;
+    });
+    top += lineHeights[idx];
+  });
+};
+
+// =====================================================
+// 🔤 v3.6: OCR (tesseract.js)
+// =====================================================
+// 워커는 한 번만 만들고 재사용 (언어 데이터 로딩이 느림)
+let ocrWorkerPromise: Promise<OcrWorker> | null = null;
+// setParameters → recognize 가 다른 작업과 섞이지 않도록 순차 실행
+let ocrQueue: Promise<unknown> = Promise.resolve();
+
+const getOcrWorker = (): Promise<OcrWorker> => {
+  if (!ocrWorkerPromise) {
+    ocrWorkerPromise = createWorker(OCR_LANGS).catch((error) => {
+      ocrWorkerPromise = null;
+      throw error;
+    });
+  }
+  return ocrWorkerPromise;
+};
+
+const runOcrJob = <T,>(job: (worker: OcrWorker) => Promise<T>): Promise<T> => {
+  const next = ocrQueue.then(async () => job(await getOcrWorker()));
+  ocrQueue = next.catch(() => {});
+  return next;
+};
+
+// OCR 결과 정리: 줄 끝 공백, 빈 줄, 연속 공백 제거
+const normalizeOcrText = (text: string): string => {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line !== '')
+    .join('\n');
+};
+
+const recognizeRegion = (
+  source: HTMLCanvasElement,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+): Promise<{ text: string; confidence: number }> => {
+  const left = Math.max(0, Math.round(x));
+  const top = Math.max(0, Math.round(y));
+  const width = Math.min(Math.round(w), source.width - left);
+  const height = Math.min(Math.round(h), source.height - top);
+
+  if (width <= 0 || height <= 0) {
+    return Promise.resolve({ text: '', confidence: 0 });
+  }
+
+  return runOcrJob(async (worker) => {
+    await worker.setParameters({ tessedit_pageseg_mode: PSM.SINGLE_BLOCK, preserve_interword_spaces: '1' });
+    const { data } = await worker.recognize(source, { rectangle: { left, top, width, height } });
+    return { text: normalizeOcrText(data.text), confidence: Math.round(data.confidence) };
+  });
+};
+
+// 줄 높이(잉크 기준)의 중앙값으로 글자 크기 추정
+const estimateFontSizeFromLines = (lines: { bbox: { y0: number; y1: number } }[]): number => {
+  const heights = lines.map((line) => line.bbox.y1 - line.bbox.y0).sort((a, b) => a - b);
+  if (heights.length === 0) return 32;
+  const median = heights[Math.floor(heights.length / 2)];
+  return Math.max(12, Math.min(200, Math.round(median / GLYPH_INK_RATIO)));
+};
+
+// 페이지 전체 OCR → 줄/문단 단위 박스
+const scanPageText = (source: HTMLCanvasElement, level: OcrScanLevel): Promise<OcrBox[]> => {
+  return runOcrJob(async (worker) => {
+    await worker.setParameters({ tessedit_pageseg_mode: PSM.AUTO, preserve_interword_spaces: '1' });
+    const { data } = await worker.recognize(source, {}, { blocks: true });
+
+    const boxes: OcrBox[] = [];
+    const padding = 4;
+
+    (data.blocks || []).forEach((block) => {
+      block.paragraphs.forEach((paragraph) => {
+        const groups =
+          level === 'line'
+            ? paragraph.lines.map((line) => ({ ...line, lines: [line] }))
+            : [{ ...paragraph, lines: paragraph.lines }];
+
+        groups.forEach((group) => {
+          const text = normalizeOcrText(group.text);
+          if (!text || group.confidence < OCR_MIN_CONFIDENCE) return;
+
+          const x = Math.max(0, group.bbox.x0 - padding);
+          const y = Math.max(0, group.bbox.y0 - padding);
+          boxes.push({
+            x,
+            y,
+            w: Math.min(source.width, group.bbox.x1 + padding) - x,
+            h: Math.min(source.height, group.bbox.y1 + padding) - y,
+            text,
+            confidence: Math.round(group.confidence),
+            fontSize: estimateFontSizeFromLines(group.lines),
+          });
+        });
+      });
+    });
+
+    return boxes;
+  });
+};
+
+// =====================================================
+// ✏️ v3.6: 한글 오타 검사 (오프라인 규칙 기반)
+// =====================================================
+interface TypoEntry {
+  wrong: string;
+  right: string;
+}
+
+interface SpellIssue {
+  start: number;
+  end: number;
+  word: string;
+  suggestion: string | null;
+  reason: string;
+  ruleId: string;
+}
+
+// 규칙은 텍스트 전체를 받아 문제 위치를 돌려줌 - 배열에 추가하면 바로 적용됨
+interface SpellRule {
+  id: string;
+  check: (text: string) => SpellIssue[];
+}
+
+const DEFAULT_TYPO_DICTIONARY: TypoEntry[] = [
+  { wrong: '햡니다', right: '합니다' },
+  { wrong: '됬', right: '됐' },
+  { wrong: '읍니다', right: '습니다' },
+  { wrong: '있슴', right: '있음' },
+  { wrong: '없슴', right: '없음' },
+  { wrong: '몇일', right: '며칠' },
+  { wrong: '할께', right: '할게' },
+  { wrong: '어떻해', right: '어떡해' },
+  { wrong: '오랫만', right: '오랜만' },
+  { wrong: '금새', right: '금세' },
+  { wrong: '역활', right: '역할' },
+  { wrong: '희안', right: '희한' },
+];
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+const JONGSEONG_COUNT = 28;
+const JONGSEONG_BIEUP = 17; // ㅂ
+const JONGSEONG_BIEUP_SIOT = 18; // ㅄ
+const JONGSEONG_SSANGSIOT = 20; // ㅆ
+// 호환용 자모 → 종성 인덱스 (흩어진 자음을 받침으로 붙일 때 사용)
+const JONGSEONG_JAMO = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
+const isHangulSyllable = (ch: string): boolean => {
+  const code = ch.charCodeAt(0);
+  return code >= HANGUL_BASE && code <= HANGUL_LAST;
+};
+
+const getJongseong = (ch: string): number => (ch.charCodeAt(0) - HANGUL_BASE) % JONGSEONG_COUNT;
+
+const withJongseong = (ch: string, jong: number): string => {
+  const code = ch.charCodeAt(0) - HANGUL_BASE;
+  return String.fromCharCode(HANGUL_BASE + code - (code % JONGSEONG_COUNT) + jong);
+};
+
+// KS X 1001 완성형 2,350자 = 실제 문서에 쓰이는 음절. 여기 없으면 깨진 글자일 가능성이 높음
+let commonSyllables: Set<string> | null = null;
+
+const getCommonSyllables = (): Set<string> => {
+  if (!commonSyllables) {
+    const bytes: number[] = [];
+    for (let hi = 0xb0; hi <= 0xc8; hi++) {
+      for (let lo = 0xa1; lo <= 0xfe; lo++) bytes.push(hi, lo);
+    }
+    const decoded = new TextDecoder('euc-kr').decode(new Uint8Array(bytes));
+    commonSyllables = new Set(Array.from(decoded).filter(isHangulSyllable));
+  }
+  return commonSyllables;
+};
+
+// 공백 기준 단어마다 검사
+const checkWords = (
+  text: string,
+  ruleId: string,
+  checkWord: (word: string) => { suggestion: string | null; reason: string } | null
+): SpellIssue[] => {
+  const issues: SpellIssue[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    const result = checkWord(match[0]);
+    if (result) {
+      issues.push({ start: match.index!, end: match.index! + match[0].length, word: match[0], ruleId, ...result });
+    }
+  }
+  return issues;
+};
+
+const createDictionaryRule = (dictionary: TypoEntry[]): SpellRule => ({
+  id: 'dictionary',
+  check: (text) => {
+    const issues: SpellIssue[] = [];
+    dictionary.forEach(({ wrong, right }) => {
+      if (!wrong) return;
+      let idx = text.indexOf(wrong);
+      while (idx !== -1) {
+        issues.push({ start: idx, end: idx + wrong.length, word: wrong, suggestion: right, reason: '오타 사전', ruleId: 'dictionary' });
+        idx = text.indexOf(wrong, idx + wrong.length);
+      }
+    });
+    return issues;
+  },
+});
+
+// -ㅂ니다 가 바로 붙는 (받침 없는) 어간의 끝 음절. "언니다" 처럼 명사 + 다 인 경우는 여기 없음
+const NIDA_STEM_ENDINGS = new Set([
+  '하', '되', '돼', '이', '시', '가', '오', '보', '봐', '주', '줘', '나', '내', '서', '니', '리', '지', '기', '우', '두',
+  '쓰', '크', '세', '해', '와', '워', '키',
+]);
+
+// "함니다", "핟니다" → "합니다": '니다' 앞 음절의 받침은 ㅂ 이어야 함 (-ㅂ니다 가 붙는 어간일 때만)
+// "있니다", "했니다", "없니다" → "-습니다": ㅆ / ㅄ 받침은 어간(있-, 없-, -었-)의 일부이므로 '습'을 넣음
+const nidaBatchimRule: SpellRule = {
+  id: 'nida-batchim',
+  check: (text) =>
+    checkWords(text, 'nida-batchim', (word) => {
+      const idx = word.indexOf('니다');
+      if (idx < 1) return null;
+      const prev = word[idx - 1];
+      if (!isHangulSyllable(prev)) return null;
+      const jong = getJongseong(prev);
+      if (jong === 0 || jong === JONGSEONG_BIEUP) return null;
+      if (jong === JONGSEONG_SSANGSIOT || jong === JONGSEONG_BIEUP_SIOT) {
+        return { suggestion: word.slice(0, idx) + '습' + word.slice(idx), reason: '어미 오류 (-습니다)' };
+      }
+      if (!NIDA_STEM_ENDINGS.has(withJongseong(prev, 0))) return null;
+      return {
+        suggestion: word.slice(0, idx - 1) + withJongseong(prev, JONGSEONG_BIEUP) + word.slice(idx),
+        reason: '받침 오류 (-ㅂ니다)',
+      };
+    }),
+};
+
+// "하ㅂ니다" 처럼 음절에서 떨어져 나온 자모
+const strayJamoRule: SpellRule = {
+  id: 'stray-jamo',
+  check: (text) =>
+    checkWords(text, 'stray-jamo', (word) => {
+      if (!/[ㄱ-ㆎᄀ-ᇿ]/.test(word) || !Array.from(word).some(isHangulSyllable)) return null;
+
+      // 받침 없는 음절 뒤의 자음은 받침으로 합치기
+      const merged = word.replace(/([가-힣])([ㄱ-ㅎ])/g, (all, syllable: string, jamo: string) => {
+        const jong = JONGSEONG_JAMO.indexOf(jamo);
+        return jong > 0 && getJongseong(syllable) === 0 ? withJongseong(syllable, jong) : all;
+      });
+      const fixed = /[ㄱ-ㆎᄀ-ᇿ]/.test(merged) ? null : merged;
+      return { suggestion: fixed, reason: '깨진 받침 / 낱자모' };
+    }),
+};
+
+const rareSyllableRule: SpellRule = {
+  id: 'rare-syllable',
+  check: (text) =>
+    checkWords(text, 'rare-syllable', (word) => {
+      const common = getCommonSyllables();
+      const rare = Array.from(word).filter((ch) => isHangulSyllable(ch) && !common.has(ch));
+      return rare.length > 0 ? { suggestion: null, reason: `쓰이지 않는 음절 (${rare.join(', ')})` } : null;
+    }),
+};
+
+// 앞에 있는 규칙이 우선 (같은 위치는 한 번만 표시)
+const createSpellRules = (dictionary: TypoEntry[]): SpellRule[] => [
+  createDictionaryRule(dictionary),
+  nidaBatchimRule,
+  strayJamoRule,
+  rareSyllableRule,
+];
+
+const checkSpelling = (text: string, rules: SpellRule[]): SpellIssue[] => {
+  const issues: SpellIssue[] = [];
+  rules.forEach((rule) => {
+    rule.check(text).forEach((issue) => {
+      const overlaps = issues.some((other) => issue.start < other.end && other.start < issue.end);
+      if (!overlaps) issues.push(issue);
+    });
+  });
+  return issues.sort((a, b) => a.start - b.start);
+};
+
+const applySpellFix = (text: string, issue: SpellIssue): string => {
+  if (issue.suggestion === null) return text;
+  if (text.slice(issue.start, issue.end) === issue.word) {
+    return text.slice(0, issue.start) + issue.suggestion + text.slice(issue.end);
+  }
+  return text.replace(issue.word, issue.suggestion);
+};
+
+// localStorage 값이 깨졌거나 예전 형식이면 기본값 사용
+const isTypoEntryList = (value: unknown): value is TypoEntry[] =>
+  Array.isArray(value) &&
+  value.every(
+    (entry) => !!entry && typeof entry === 'object' && typeof entry.wrong === 'string' && typeof entry.right === 'string'
+  );
+
+const loadTypoDictionary = (): TypoEntry[] => {
+  try {
+    const saved = localStorage.getItem(TYPO_DICTIONARY_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (isTypoEntryList(parsed)) return parsed;
+  } catch {}
+  return DEFAULT_TYPO_DICTIONARY;
+};
+
+// =====================================================
+// 💾 v3.9: 프로젝트 파일 (.kbproj)
+// =====================================================
+const PROJECT_EXTENSION = '.kbproj';
+const PROJECT_VERSION = 2;
+
+interface SourceFile {
+  name: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
+interface ProjectFile {
+  version: number;
+  savedAt: string;
+  source: SourceFile;
+  currentPage: number;
+  pages: { [pageNum: number]: HistoryState }; // 이미지는 1페이지만 사용
+}
+
+// 구버전 변환표: PROJECT_MIGRATIONS[n] 은 v(n) → v(n+1) 로 변환
+const PROJECT_MIGRATIONS: { [version: number]: (project: any) => any } = {
+  // v1 → v2: 단일 state → 페이지별 pages
+  1: ({ state, ...rest }) => ({ ...rest, pages: { [rest.currentPage]: state } }),
+};
+
+const migrateProject = (raw: any): ProjectFile => {
+  if (!raw || typeof raw.version !== 'number' || !raw.source || !(raw.state || raw.pages)) {
+    throw new Error('프로젝트 파일 형식이 아닙니다.');
+  }
+  if (raw.version > PROJECT_VERSION) {
+    throw new Error(`더 새로운 버전(v${raw.version})에서 저장된 프로젝트입니다. 앱을 업데이트해주세요.`);
+  }
+  let project = raw;
+  while (project.version < PROJECT_VERSION) {
+    const migrate = PROJECT_MIGRATIONS[project.version];
+    if (!migrate) throw new Error(`지원하지 않는 프로젝트 버전입니다 (v${project.version}).`);
+    project = { ...migrate(project), version: project.version + 1 };
+  }
+  return project;
+};
+
+const readFileAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('이미지를 불러올 수 없습니다.'));
+    img.src = src;
+  });
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+const EMPTY_EDIT_STATE: HistoryState = { selections: [], replacements: {}, stickers: [], customTexts: [] };
+
+const hasEdits = (state: HistoryState) =>
+  state.selections.length > 0 || state.stickers.length > 0 || state.customTexts.length > 0;
+
+// =====================================================
+// 🗄️ v3.9: 자동 저장 (IndexedDB)
+// =====================================================
+// 이미지가 커서 localStorage 대신 IndexedDB 사용.
+// 목록용 요약(sessions)과 실제 프로젝트 데이터(projects)를 나눠 목록 조회를 가볍게 유지
+const AUTOSAVE_DB_NAME = 'ai_slide_restore_autosave';
+const AUTOSAVE_DB_VERSION = 1;
+const AUTOSAVE_SESSION_STORE = 'sessions';
+const AUTOSAVE_PROJECT_STORE = 'projects';
+const AUTOSAVE_DELAY_MS = 1000;
+const AUTOSAVE_MAX_SESSIONS = 20;
+
+interface AutosaveSession {
+  id: string;
+  name: string;
+  sourceName: string;
+  updatedAt: number;
+}
+
+let autosaveDbPromise: Promise<IDBDatabase> | null = null;
+
+const openAutosaveDb = (): Promise<IDBDatabase> => {
+  if (!autosaveDbPromise) {
+    autosaveDbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(AUTOSAVE_DB_NAME, AUTOSAVE_DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(AUTOSAVE_SESSION_STORE)) {
+          db.createObjectStore(AUTOSAVE_SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(AUTOSAVE_PROJECT_STORE)) {
+          db.createObjectStore(AUTOSAVE_PROJECT_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        autosaveDbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return autosaveDbPromise;
+};
+
+const idbRequest = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const idbTransactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const listAutosaveSessions = async (): Promise<AutosaveSession[]> => {
+  const db = await openAutosaveDb();
+  const store = db.transaction(AUTOSAVE_SESSION_STORE).objectStore(AUTOSAVE_SESSION_STORE);
+  const sessions = await idbRequest<AutosaveSession[]>(store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+const getAutosaveProject = async (id: string): Promise<ProjectFile | undefined> => {
+  const db = await openAutosaveDb();
+  const store = db.transaction(AUTOSAVE_PROJECT_STORE).objectStore(AUTOSAVE_PROJECT_STORE);
+  return idbRequest(store.get(id));
+};
+
+const deleteAutosaveSessions = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  const db = await openAutosaveDb();
+  const tx = db.transaction([AUTOSAVE_SESSION_STORE, AUTOSAVE_PROJECT_STORE], 'readwrite');
+  ids.forEach((id) => {
+    tx.objectStore(AUTOSAVE_SESSION_STORE).delete(id);
+    tx.objectStore(AUTOSAVE_PROJECT_STORE).delete(id);
+  });
+  await idbTransactionDone(tx);
+};
+
+// 저장 후 오래된 세션부터 정리해 최대 개수 유지
+const putAutosaveSession = async (session: AutosaveSession, project: ProjectFile) => {
+  const db = await openAutosaveDb();
+  const tx = db.transaction([AUTOSAVE_SESSION_STORE, AUTOSAVE_PROJECT_STORE], 'readwrite');
+  tx.objectStore(AUTOSAVE_SESSION_STORE).put(session);
+  tx.objectStore(AUTOSAVE_PROJECT_STORE).put(project, session.id);
+  await idbTransactionDone(tx);
+
+  const sessions = await listAutosaveSessions();
+  await deleteAutosaveSessions(sessions.slice(AUTOSAVE_MAX_SESSIONS).map((s) => s.id));
+};
+
+const renameAutosaveSession = async (id: string, name: string) => {
+  const db = await openAutosaveDb();
+  const tx = db.transaction(AUTOSAVE_SESSION_STORE, 'readwrite');
+  const store = tx.objectStore(AUTOSAVE_SESSION_STORE);
+  const session = await idbRequest<AutosaveSession | undefined>(store.get(id));
+  if (session) store.put({ ...session, name });
+  await idbTransactionDone(tx);
+};
+
+const createSessionInfo = (fileName: string) => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: stripExtension(fileName),
+});
+
+// =====================================================
+// 📥 v4.0: 이미지 내보내기 (PNG / JPEG / WebP)
+// =====================================================
+type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+const EXPORT_FORMAT_OPTIONS: { value: ExportFormat; label: string; ext: string }[] = [
+  { value: 'image/png', label: 'PNG', ext: 'png' },
+  { value: 'image/jpeg', label: 'JPEG', ext: 'jpg' },
+  { value: 'image/webp', label: 'WebP', ext: 'webp' },
+];
+const DEFAULT_EXPORT_QUALITY = 0.92;
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('이미지 인코딩 실패'))), type, quality);
+  });
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// JPEG 원본의 EXIF(APP1) 세그먼트 추출. 브라우저가 이미 회전을 적용해 그렸으므로 Orientation 은 1로 되돌리고,
+// 편집 전 모습이 그대로 남은 썸네일(IFD1)은 지운다
+const extractJpegExif = (bytes: Uint8Array): Uint8Array[] => {
+  const segments: Uint8Array[] = [];
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return segments;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break; // 이미지 데이터 시작
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const isExif =
+      marker === 0xe1 && String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) === 'Exif';
+    if (isExif) segments.push(sanitizeExif(bytes.slice(offset, offset + 2 + length)));
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+const sanitizeExif = (segment: Uint8Array): Uint8Array => {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const tiff = 10; // FF E1 + 길이(2) + "Exif\0\0"
+  if (segment.length < tiff + 8) return segment;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd0 = tiff + view.getUint32(tiff + 4, little);
+  if (ifd0 + 2 > segment.length) return segment;
+
+  const count = view.getUint16(ifd0, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > segment.length) break;
+    if (view.getUint16(entry, little) === 0x0112) view.setUint16(entry + 8, 1, little);
+  }
+
+  // IFD0 다음 IFD(= IFD1, 썸네일) 연결을 끊고 디렉터리와 썸네일 바이트를 0으로 덮음
+  // (세그먼트 길이를 줄이면 다른 태그의 오프셋이 어긋날 수 있어 제자리에서 지움)
+  const next = ifd0 + 2 + count * 12;
+  if (next + 4 > segment.length) return segment;
+  const ifd1Offset = view.getUint32(next, little);
+  view.setUint32(next, 0, little);
+  const ifd1 = tiff + ifd1Offset;
+  if (ifd1Offset === 0 || ifd1 + 2 > segment.length) return segment;
+
+  const ifd1Count = view.getUint16(ifd1, little);
+  const ifd1End = Math.min(segment.length, ifd1 + 2 + ifd1Count * 12 + 4);
+  let thumbStart = 0;
+  let thumbLength = 0;
+  for (let i = 0; i < ifd1Count; i++) {
+    const entry = ifd1 + 2 + i * 12;
+    if (entry + 12 > segment.length) break;
+    const tag = view.getUint16(entry, little);
+    if (tag === 0x0201) thumbStart = tiff + view.getUint32(entry + 8, little); // JPEGInterchangeFormat
+    if (tag === 0x0202) thumbLength = view.getUint32(entry + 8, little); // JPEGInterchangeFormatLength
+  }
+  if (thumbStart > tiff && thumbLength > 0) {
+    segment.fill(0, thumbStart, Math.min(segment.length, thumbStart + thumbLength));
+  }
+  segment.fill(0, ifd1, ifd1End);
+  return segment;
+};
+
+// SOI 바로 뒤에 세그먼트 삽입
+const insertJpegSegments = (jpeg: Uint8Array, segments: Uint8Array[]): Uint8Array => {
+  const total = jpeg.length + segments.reduce((sum, seg) => sum + seg.length, 0);
+  const result = new Uint8Array(total);
+  result.set(jpeg.subarray(0, 2), 0);
+  let offset = 2;
+  segments.forEach((seg) => {
+    result.set(seg, offset);
+    offset += seg.length;
+  });
+  result.set(jpeg.subarray(2), offset);
+  return result;
+};
+
+// =====================================================
+// 📦 v4.0: 일괄 처리 (여러 이미지 + 공통 찾기→바꾸기 규칙)
+// =====================================================
+const BATCH_RULES_KEY = 'ai_slide_restore_batch_rules';
+const DEFAULT_BATCH_RULES: TypoEntry[] = [{ wrong: '햡니다', right: '합니다' }];
+
+type BatchStatus = 'pending' | 'processing' | 'done' | 'error';
+
+interface BatchItem {
+  id: number;
+  name: string; // 폴더 업로드면 상대 경로
+  dataUrl: string;
+  status: BatchStatus;
+  state: HistoryState | null;
+  matchCount: number;
+  resultUrl: string | null; // object URL (미리보기)
+  resultBlob: Blob | null;
+  included: boolean; // ZIP 포함 여부
+  error?: string;
+}
+
+// 모든 규칙 적용 → 바뀐 텍스트와 치환 횟수
+const applyBatchRules = (text: string, rules: TypoEntry[]): { text: string; count: number } => {
+  let count = 0;
+  const result = rules.reduce((current, rule) => {
+    if (!rule.wrong) return current;
+    const parts = current.split(rule.wrong);
+    count += parts.length - 1;
+    return parts.join(rule.right);
+  }, text);
+  return { text: result, count };
+};
+
+// 저장된 규칙이 깨졌거나 예전 형식이면 기본 규칙. 찾을 글자가 빈 규칙은 아무것도 바꾸지 않으므로 버림
+const loadBatchRules = (): TypoEntry[] => {
+  try {
+    const saved = localStorage.getItem(BATCH_RULES_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (isTypoEntryList(parsed)) return parsed.filter((rule) => rule.wrong);
+  } catch {}
+  return DEFAULT_BATCH_RULES;
+};
+
+// 같은 이름이 겹치면 (2), (3)... 을 붙인다
+const uniqueZipPath = (path: string, used: Set<string>) => {
+  let candidate = path;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = path.replace(/(\.[^./]+)?$/, ` (${n})$1`);
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+// =====================================================
+// 🔎 v4.0: 찾기 / 바꾸기 (교정 텍스트 + 멀티컬러 글씨)
+// =====================================================
+interface FindOptions {
+  query: string;
+  replacement: string;
+  caseSensitive: boolean;
+  useRegex: boolean;
+}
+
+interface FindMatch {
+  key: string;
+  label: string;
+  before: string;
+  after: string;
+  count: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 잘못된 정규식이거나 빈 문자열과 일치하면 (a*, ^ 등 - 글자 사이마다 바꿀 문자열이 끼어듦) null
+const buildFindPattern = (options: FindOptions): RegExp | null => {
+  if (!options.query) return null;
+  try {
+    const source = options.useRegex ? options.query : escapeRegExp(options.query);
+    const pattern = new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+    return ''.match(pattern) ? null : pattern;
+  } catch {
+    return null;
+  }
+};
+
+// 정규식 바꿀 문자열의 $$, $&, $`, $', $1, $<name> 을 일치 결과로 채움 (String.replace 와 같은 규칙)
+const expandReplacement = (
+  template: string,
+  match: string,
+  captures: (string | undefined)[],
+  offset: number,
+  text: string,
+  named?: Record<string, string | undefined>
+) =>
+  template.replace(/\$(\$|&|`|'|<([^>]*)>|\d\d?)/g, (token, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match;
+    if (key === '`') return text.slice(0, offset);
+    if (key === "'") return text.slice(offset + match.length);
+    if (name !== undefined) return named ? named[name] ?? '' : token;
+    const index = Number(key);
+    if (index >= 1 && index <= captures.length) return captures[index - 1] ?? '';
+    // $12 인데 그룹이 1개뿐이면 $1 + '2'
+    const single = Number(key[0]);
+    if (key.length === 2 && single >= 1 && single <= captures.length) return (captures[single - 1] ?? '') + key[1];
+    return token;
+  });
+
+// \b, (?=...) 처럼 빈 문자열에 일치한 곳은 세지도 바꾸지도 않음
+const replaceMatches = (text: string, pattern: RegExp, options: FindOptions): { text: string; count: number } => {
+  const count = (text.match(pattern) || []).filter((match) => match !== '').length;
+  if (count === 0) return { text, count };
+  const replaced = text.replace(pattern, (match: string, ...args: unknown[]) => {
+    if (match === '') return match;
+    // 일반 검색에서는 $ 를 특수 문자로 해석하지 않음
+    if (!options.useRegex) return options.replacement;
+    const named =
+      typeof args[args.length - 1] === 'object' ? (args.pop() as Record<string, string | undefined>) : undefined;
+    const source = args.pop() as string;
+    const offset = args.pop() as number;
+    return expandReplacement(options.replacement, match, args as (string | undefined)[], offset, source, named);
+  });
+  return { text: replaced, count };
+};
+
+// 상태 전체에 적용한 결과와 항목별 미리보기. 구간(segment) 경계를 넘는 일치는 찾지 않는다
+const findAndReplace = (
+  state: HistoryState,
+  pattern: RegExp,
+  options: FindOptions
+): { state: HistoryState; matches: FindMatch[] } => {
+  const matches: FindMatch[] = [];
+  const replaceSegments = (segments: TextSegment[]) => {
+    let count = 0;
+    const next = segments.map((seg) => {
+      const result = replaceMatches(seg.text, pattern, options);
+      count += result.count;
+      return result.count > 0 ? { ...seg, text: result.text } : seg;
+    });
+    return { segments: next, count };
+  };
+
+  const replacements = { ...state.replacements };
+  const selections = state.selections.map((sel, idx) => {
+    if (sel.type !== 'text') return sel;
+    const label = `텍스트 #${idx + 1}`;
+    if (sel.segments) {
+      const { count, ...result } = replaceSegments(sel.segments);
+      if (count === 0) return sel;
+      const segments = limitSegments(result.segments, MAX_CHAR_LIMIT);
+      replacements[sel.id] = segmentsToText(segments);
+      matches.push({ key: `sel-${sel.id}`, label, before: segmentsToText(sel.segments), after: replacements[sel.id], count });
+      return { ...sel, segments };
+    }
+    const before = state.replacements[sel.id] || '';
+    const { text, count } = replaceMatches(before, pattern, options);
+    if (count > 0) {
+      replacements[sel.id] = text.slice(0, MAX_CHAR_LIMIT);
+      matches.push({ key: `sel-${sel.id}`, label, before, after: replacements[sel.id], count });
+    }
+    return sel;
+  });
+
+  const customTexts = state.customTexts.map((txt, idx) => {
+    const { segments, count } = replaceSegments(txt.segments);
+    if (count === 0) return txt;
+    matches.push({
+      key: `txt-${txt.id}`,
+      label: `글씨 #${idx + 1}`,
+      before: segmentsToText(txt.segments),
+      after: segmentsToText(segments),
+      count,
+    });
+    return { ...txt, segments };
+  });
+
+  return { state: { ...state, selections, replacements, customTexts }, matches };
+};
+
+// =====================================================
+// 🗂️ v4.0: 레이어 순서
+// =====================================================
+const layerKey = (layer: { kind: LayerKind; id: number }) => `${layer.kind}-${layer.id}`;
+
+// 저장된 순서 중 실제로 있는 항목만 남기고, 목록에 없는 새 항목은 맨 위에 추가
+const resolveLayers = (state: HistoryState): Layer[] => {
+  const all: Layer[] = [
+    ...state.selections.map((s): Layer => ({ kind: 'selection', id: s.id })),
+    ...state.stickers.map((s): Layer => ({ kind: 'sticker', id: s.id })),
+    ...state.customTexts.map((t): Layer => ({ kind: 'text', id: t.id })),
+  ];
+  const existing = new Set(all.map(layerKey));
+  const seen = new Set<string>();
+  const ordered = (state.layers || []).filter((layer) => {
+    const key = layerKey(layer);
+    if (!existing.has(key) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return [...ordered, ...all.filter((layer) => !seen.has(layerKey(layer)))];
+};
+
+const defaultLayerName = (layer: Layer, state: HistoryState): string => {
+  if (layer.kind === 'selection') {
+    const sel = state.selections.find((s) => s.id === layer.id);
+    const label = sel?.type === 'text' ? '텍스트' : sel?.type === 'image-ai' ? 'AI 이미지' : '이미지 대체';
+    const text = sel?.type === 'text' ? state.replacements[layer.id] : '';
+    return text ? `${label}: ${text.split('\n')[0]}` : `${label} #${layer.id}`;
+  }
+  if (layer.kind === 'sticker') return `스티커 #${layer.id}`;
+  const txt = state.customTexts.find((t) => t.id === layer.id);
+  const text = txt ? segmentsToText(txt.segments).split('\n')[0] : '';
+  return text ? `글씨: ${text}` : `글씨 #${layer.id}`;
+};
+
+// =====================================================
+// 🕘 v4.0: 히스토리 (변경 단위 기록)
+// =====================================================
+const MAX_HISTORY_STEPS = 100;      // 넘으면 가장 오래된 단계부터 버림 (페이지별)
+const HISTORY_COALESCE_MS = 1000;   // 같은 항목의 같은 속성을 이 시간 안에 또 바꾸면 합침 (타이핑, 슬라이더)
+
+const diffItems = <T extends { id: number }>(before: T[], after: T[]) => {
+  const ops: { id: number; index: number; fields: string[]; before?: T; after?: T }[] = [];
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+
+  before.forEach((item, index) => {
+    if (!afterIds.has(item.id)) ops.push({ id: item.id, index, fields: [], before: item });
+  });
+  after.forEach((item, index) => {
+    const prev = beforeById.get(item.id);
+    if (!prev) {
+      ops.push({ id: item.id, index, fields: [], after: item });
+      return;
+    }
+    if (prev === item) return;
+    const keys = new Set([...Object.keys(prev), ...Object.keys(item)]);
+    const fields = [...keys].filter(
+      (key) => (prev as Record<string, unknown>)[key] !== (item as Record<string, unknown>)[key]
+    );
+    if (fields.length > 0) ops.push({ id: item.id, index, fields, before: prev, after: item });
+  });
+  return ops;
+};
+
+const diffEditStates = (before: HistoryState, after: HistoryState): HistoryOp[] => {
+  const ops: HistoryOp[] = [
+    ...diffItems(before.selections, after.selections).map((op): HistoryOp => ({ target: 'selections', ...op })),
+    ...diffItems(before.stickers, after.stickers).map((op): HistoryOp => ({ target: 'stickers', ...op })),
+    ...diffItems(before.customTexts, after.customTexts).map((op): HistoryOp => ({ target: 'customTexts', ...op })),
+  ];
+
+  const ids = new Set([...Object.keys(before.replacements), ...Object.keys(after.replacements)].map(Number));
+  ids.forEach((id) => {
+    if (before.replacements[id] !== after.replacements[id]) {
+      ops.push({ target: 'replacements', id, before: before.replacements[id], after: after.replacements[id] });
+    }
+  });
+
+  const beforeLayers = before.layers || [];
+  const afterLayers = after.layers || [];
+  if (JSON.stringify(beforeLayers) !== JSON.stringify(afterLayers)) {
+    ops.push({ target: 'layers', before: beforeLayers, after: afterLayers });
+  }
+  return ops;
+};
+
+// undo = true 면 after → before 방향으로 되돌림
+const applyHistoryOps = (state: HistoryState, ops: HistoryOp[], undo: boolean): HistoryState => {
+  const next: HistoryState = {
+    selections: [...state.selections],
+    replacements: { ...state.replacements },
+    stickers: [...state.stickers],
+    customTexts: [...state.customTexts],
+    layers: state.layers,
+  };
+
+  (undo ? [...ops].reverse() : ops).forEach((op) => {
+    const to = undo ? op.before : op.after;
+    if (op.target === 'layers') {
+      next.layers = to as Layer[];
+      return;
+    }
+    if (op.target === 'replacements') {
+      if (to === undefined) delete next.replacements[op.id];
+      else next.replacements[op.id] = to as string;
+      return;
+    }
+    const list = next[op.target] as (SelectionArea | Sticker | CustomText)[];
+    const idx = list.findIndex((item) => item.id === op.id);
+    const item = to as SelectionArea | Sticker | CustomText | undefined;
+    if (!item) {
+      if (idx !== -1) list.splice(idx, 1);
+    } else if (idx !== -1) {
+      list[idx] = item;
+    } else {
+      list.splice(op.index, 0, item);
+    }
+  });
+  return next;
+};
+
+const historyOpKey = (op: HistoryOp) =>
+  op.target === 'layers' ? 'layers' : op.target === 'replacements' ? `replacements:${op.id}` : `${op.target}:${op.id}`;
+
+// 속성만 바뀐 변경끼리만 합칠 수 있음 (추가/삭제는 항상 별도 단계)
+const historyCoalesceKey = (ops: HistoryOp[]) =>
+  ops.some((op) => op.target !== 'layers' && op.target !== 'replacements' && (!op.before || !op.after))
+    ? ''
+    : ops
+        .map((op) => (op.target === 'layers' || op.target === 'replacements' ? historyOpKey(op) : `${historyOpKey(op)}:${op.fields.join(',')}`))
+        .join('|');
+
+// 같은 항목은 처음 before 와 마지막 after 만 남김. 추가 후 삭제처럼 전/후가 모두 없으면 버림
+const mergeHistoryOps = (ops: HistoryOp[], more: HistoryOp[]): HistoryOp[] => {
+  const merged = [...ops];
+  more.forEach((op) => {
+    const idx = merged.findIndex((prev) => historyOpKey(prev) === historyOpKey(op));
+    if (idx === -1) {
+      merged.push(op);
+      return;
+    }
+    const prev = merged[idx];
+    const fields = 'fields' in prev && 'fields' in op ? [...new Set([...prev.fields, ...op.fields])] : [];
+    merged[idx] = { ...prev, after: op.after, ...(fields.length ? { fields } : {}) } as HistoryOp;
+  });
+  return merged.filter((op) => op.target === 'layers' || op.before !== undefined || op.after !== undefined);
+};
+
+const HISTORY_TARGET_NAMES = { selections: '영역', stickers: '스티커', customTexts: '글씨' };
+
+const HISTORY_FIELD_LABELS: [string[], string][] = [
+  [['x', 'y'], '이동'],
+  [['w', 'h', 'scale'], '크기 조절'],
+  [['rotation', 'textRotation', 'imageRotation'], '회전'],
+  [['segments'], '글자 수정'],
+  [['replacementImage'], '이미지 교체'],
+  [['opacity'], '투명도 변경'],
+];
+
+const describeHistoryOps = (ops: HistoryOp[]): string => {
+  const itemOps = ops.filter((op): op is HistoryItemOp => op.target !== 'layers' && op.target !== 'replacements');
+  if (itemOps.length === 0) {
+    return ops.some((op) => op.target === 'replacements') ? '텍스트 입력' : '레이어 변경';
+  }
+
+  const first = itemOps[0];
+  const name = HISTORY_TARGET_NAMES[first.target];
+  const count = itemOps.length > 1 ? ` (${itemOps.length}개)` : '';
+  if (!first.before) return `${name} 추가${count}`;
+  if (!first.after) return `${name} 삭제${count}`;
+  const fields = [...new Set(itemOps.flatMap((op) => op.fields))];
+  const match = HISTORY_FIELD_LABELS.find(([keys]) => fields.every((field) => keys.includes(field)));
+  return `${name} ${match ? match[1] : '속성 변경'}${count}`;
+};
+
+// =====================================================
+// 🎬 v4.0: 장면 렌더링 (미리보기와 결과물이 같은 코드로 그림)
+// =====================================================
+// 편집 화면은 이 위에 경계선/ID/후보만 덧그리고, 결과 보기·PDF·일괄 처리는 이것만 그림
+interface SceneAssets {
+  stickerImages: Map<number, HTMLImageElement>;
+  replacementImages: Map<number, HTMLImageElement>;
+  // 원래 글자 지우기 - 영역 중심으로 translate/rotate 된 상태에서 호출
+  fillBackground: (ctx: CanvasRenderingContext2D, sel: SelectionArea, rotation: number) => void;
+}
+
+const drawTextSelectionContent = (
+  ctx: CanvasRenderingContext2D,
+  sel: SelectionArea,
+  text: string,
+  assets: SceneAssets
+) => {
+  const rotation = sel.textRotation || 0;
+  ctx.save();
+  ctx.translate(sel.x + sel.w / 2, sel.y + sel.h / 2);
+  if (rotation) ctx.rotate((rotation * Math.PI) / 180);
+  assets.fillBackground(ctx, sel, rotation);
+  if (text) drawSelectionText(ctx, sel, text);
+  ctx.restore();
+};
+
+const drawReplaceSelectionContent = (ctx: CanvasRenderingContext2D, sel: SelectionArea, assets: SceneAssets) => {
+  if (!sel.replacementImage) return;
+
+  ctx.save();
+  ctx.translate(sel.x + sel.w / 2, sel.y + sel.h / 2);
+  assets.fillBackground(ctx, sel, 0);
+
+  const img = assets.replacementImages.get(sel.id);
+  if (img && img.complete) {
+    if (sel.imageRotation) ctx.rotate((sel.imageRotation * Math.PI) / 180);
+    ctx.scale(sel.imageFlipX ? -1 : 1, sel.imageFlipY ? -1 : 1);
+    ctx.drawImage(img, -sel.w / 2, -sel.h / 2, sel.w, sel.h);
+  }
+  ctx.restore();
+};
+
+const drawStickerContent = (ctx: CanvasRenderingContext2D, stk: Sticker, assets: SceneAssets) => {
+  const img = assets.stickerImages.get(stk.id);
+  if (!img || !img.complete) return;
+
+  ctx.save();
+  ctx.globalAlpha = stk.opacity;
+  ctx.translate(stk.x, stk.y);
+  ctx.rotate((stk.rotation * Math.PI) / 180);
+  ctx.scale((stk.flipX ? -1 : 1) * stk.scale, stk.scale);
+  ctx.drawImage(img, -stk.w / 2, -stk.h / 2, stk.w, stk.h);
+  ctx.restore();
+};
+
+const customTextFont = (txt: CustomText) =>
+  `${txt.fontWeight} ${txt.fontSize * txt.scale}px ${txt.fontFamily || 'Noto Sans KR'}`;
+
+// 멀티컬러 글씨 상자 - (x, y) 기준, 회전 전 좌표 (첫 줄 기준선이 y=0)
+const measureCustomText = (ctx: CanvasRenderingContext2D, txt: CustomText) => {
+  const size = txt.fontSize * txt.scale;
+  const lineHeight = size * 1.2;
+
+  ctx.save();
+  ctx.font = customTextFont(txt);
+  let lineCount = 1;
+  let lineWidth = 0;
+  let maxWidth = 0;
+  txt.segments.forEach((seg) => {
+    if (seg.newLine) {
+      lineCount++;
+      lineWidth = 0;
+    }
+    lineWidth += ctx.measureText(seg.text).width;
+    maxWidth = Math.max(maxWidth, lineWidth);
+  });
+  ctx.restore();
+
+  return { left: 0, top: -size, right: maxWidth, bottom: (lineCount - 1) * lineHeight + size * 0.4 };
+};
+
+const drawCustomTextContent = (ctx: CanvasRenderingContext2D, txt: CustomText) => {
+  ctx.save();
+  ctx.globalAlpha = txt.opacity;
+  ctx.translate(txt.x, txt.y);
+  ctx.rotate((txt.rotation * Math.PI) / 180);
+  ctx.font = customTextFont(txt);
+
+  // v3.5: 줄바꿈 지원
+  const lineHeight = txt.fontSize * txt.scale * 1.2;
+  let currentX = 0;
+  let currentY = 0;
+  txt.segments.forEach((seg) => {
+    if (seg.newLine) {
+      currentX = 0;
+      currentY += lineHeight;
+    }
+    ctx.fillStyle = seg.color;
+    ctx.fillText(seg.text, currentX, currentY);
+    currentX += ctx.measureText(seg.text).width;
+  });
+  ctx.restore();
+};
+
+// 레이어 하나를 그림. AI 이미지 영역은 생성 결과가 있어야 하므로 여기서는 그리지 않음
+const drawSceneLayer = (ctx: CanvasRenderingContext2D, layer: Layer, state: HistoryState, assets: SceneAssets) => {
+  if (layer.kind === 'sticker') {
+    const stk = state.stickers.find((s) => s.id === layer.id);
+    if (stk) drawStickerContent(ctx, stk, assets);
+    return;
+  }
+  if (layer.kind === 'text') {
+    const txt = state.customTexts.find((t) => t.id === layer.id);
+    if (txt) drawCustomTextContent(ctx, txt);
+    return;
+  }
+  const sel = state.selections.find((s) => s.id === layer.id);
+  if (!sel) return;
+  if (sel.type === 'text') drawTextSelectionContent(ctx, sel, state.replacements[sel.id] || '', assets);
+  else if (sel.type === 'image-replace') drawReplaceSelectionContent(ctx, sel, assets);
+};
+
+// 텍스트 영역이 실제로 그리는 범위 (영역 밖으로 넘친 글자 포함) - 다시 그릴 영역 계산용
+const selectionContentBounds = (ctx: CanvasRenderingContext2D, sel: SelectionArea, text: string): Rect => {
+  ctx.save();
+  const { halfW, halfH } = measureSelectionText(ctx, sel, text);
+  ctx.restore();
+  const pad = 4;
+  return rotatedRectAround(
+    sel.x + sel.w / 2,
+    sel.y + sel.h / 2,
+    -halfW - pad,
+    -halfH - pad,
+    halfW + pad,
+    halfH + pad,
+    sel.textRotation || 0
+  );
+};
+
+// v3.7: 인페인팅/글자 지우기 결과 캐시 (선택 영역 id → 위치·방식 키 + 패치)
+type InpaintCache = Map<number, { key: string; patch: InpaintPatch }>;
+
+// cache 가 없으면 (현재 페이지가 아닌 base) 매번 계산
+const getInpaintPatch = (
+  sel: SelectionArea,
+  rotation: number,
+  mode: 'inpaint' | 'glyph',
+  base: ImageData,
+  cache?: InpaintCache
+): InpaintPatch | null => {
+  const bounds = getRotatedBounds(sel.x, sel.y, sel.w, sel.h, rotation);
+  const textRgb = hexToRgb(sel.textColor || '#000000');
+  const bgRgb = hexToRgb(sel.textBgColor || '#ffffff');
+  const key = [
+    mode,
+    Math.round(bounds.x),
+    Math.round(bounds.y),
+    Math.round(bounds.w),
+    Math.round(bounds.h),
+    mode === 'glyph' ? `${sel.textColor},${sel.textBgColor}` : '',
+  ].join(',');
+  const cached = cache?.get(sel.id);
+  if (cached && cached.key === key) return cached.patch;
+
+  const patch =
+    mode === 'glyph'
+      ? textRgb && bgRgb
+        ? eraseGlyphs(base, bounds.x, bounds.y, bounds.w, bounds.h, textRgb, bgRgb)
+        : null
+      : inpaintRegion(base, bounds.x, bounds.y, bounds.w, bounds.h);
+  if (patch && cache) cache.set(sel.id, { key, patch });
+  return patch;
+};
+
+// 감지된 그라데이션이 없으면 테두리 색으로 만든 선형 그라데이션
+const selectionGradientSpec = (sel: SelectionArea, base: ImageData | null): BackgroundSpec => {
+  if (sel.bgSpec && sel.bgSpec.kind !== 'solid') return sel.bgSpec;
+  if (base) return edgeGradientSpec(base, sel.x, sel.y, sel.w, sel.h);
+  const color = sel.textBgColor || '#ffffff';
+  return { kind: 'horizontal', color, from: color, to: color };
+};
+
+// v3.7: 원래 글자 지우기 - 영역 중심으로 translate/rotate 된 상태에서 호출
+const fillSelectionBackground = (
+  ctx: CanvasRenderingContext2D,
+  sel: SelectionArea,
+  rotation: number,
+  base: ImageData | null,
+  cache?: InpaintCache
+) => {
+  const mode = base ? sel.bgFillMode || 'flat' : 'flat';
+
+  if (mode === 'gradient') {
+    fillBackgroundSpec(ctx, selectionGradientSpec(sel, base), sel.w, sel.h);
+    return;
+  }
+
+  if (base && (mode === 'inpaint' || mode === 'glyph')) {
+    const patch = getInpaintPatch(sel, rotation, mode, base, cache);
+    if (patch) {
+      // 패치는 회전 없는 이미지 좌표 → 영역 모양으로 자른 뒤 회전을 되돌려 그림
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
+      ctx.clip();
+      ctx.rotate((-rotation * Math.PI) / 180);
+      ctx.drawImage(patch.canvas, patch.x - (sel.x + sel.w / 2), patch.y - (sel.y + sel.h / 2));
+      ctx.restore();
+      return;
+    }
+  }
+
+  ctx.fillStyle = sel.textBgColor || '#ffffff';
+  ctx.fillRect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
+};
+
+// 배경 지우기는 base(원본 픽셀) 기준
+const createSceneAssets = (
+  base: ImageData | null,
+  stickerImages: Map<number, HTMLImageElement>,
+  replacementImages: Map<number, HTMLImageElement>,
+  inpaintCache?: InpaintCache
+): SceneAssets => ({
+  stickerImages,
+  replacementImages,
+  fillBackground: (ctx, sel, rotation) => fillSelectionBackground(ctx, sel, rotation, base, inpaintCache),
+});
+
+// 원본 위에 편집 내용을 합성 - 결과 보기 / PDF 내보내기 / 일괄 처리에서 공용
+// 레이어 순서(아래 → 위)대로, 숨긴 레이어 제외. AI 이미지 영역은 drawAiLayer 가 그림
+const composeScene = async (
+  ctx: CanvasRenderingContext2D,
+  state: HistoryState,
+  assets: SceneAssets,
+  hooks: { onStep?: (step: string) => void; drawAiLayer?: (sel: SelectionArea) => Promise<void> } = {}
+) => {
+  for (const layer of resolveLayers(state)) {
+    if (layer.hidden) continue;
+
+    const sel = layer.kind === 'selection' ? state.selections.find((s) => s.id === layer.id) : undefined;
+    if (sel?.type === 'image-ai') {
+      hooks.onStep?.(`AI 이미지 #${sel.id} 복원 중...`);
+      if (hooks.drawAiLayer) await hooks.drawAiLayer(sel);
+      continue;
+    }
+    if (sel?.type === 'text') hooks.onStep?.(`텍스트 영역 #${sel.id} 복원 중...`);
+    if (sel?.type === 'image-replace') hooks.onStep?.(`이미지 #${sel.id} 교체 중...`);
+    drawSceneLayer(ctx, layer, state, assets);
+  }
+};
+
+// =====================================================
+// 🖼️ v4.0: 캔버스 렌더링 (레이어 캐시 + 변경 영역만 다시 그리기)
+// =====================================================
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// 한 프레임에 그려지는 단위. sig 가 바뀌거나 추가/삭제되면 bounds 영역만 다시 그림
+interface CanvasItem {
+  key: string;
+  sig: string;
+  bounds: Rect;
+  draw: (ctx: CanvasRenderingContext2D) => void;
+}
+
+const FULL_REDRAW_RATIO = 0.5; // 변경 영역이 캔버스의 절반을 넘으면 전체 다시 그리기
+
+const padRect = (rect: Rect, pad: number): Rect => ({
+  x: rect.x - pad,
+  y: rect.y - pad,
+  w: rect.w + pad * 2,
+  h: rect.h + pad * 2,
+});
+
+const unionRects = (rects: Rect[]): Rect => {
+  const x0 = Math.min(...rects.map((r) => r.x));
+  const y0 = Math.min(...rects.map((r) => r.y));
+  const x1 = Math.max(...rects.map((r) => r.x + r.w));
+  const y1 = Math.max(...rects.map((r) => r.y + r.h));
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+};
+
+const rectsIntersect = (a: Rect, b: Rect) =>
+  a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+
+// (ox, oy) 기준 회전된 사각형 [left..right]×[top..bottom] 의 외접 사각형
+const rotatedRectAround = (
+  ox: number,
+  oy: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+  rotation: number
+): Rect => {
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const corners = [
+    [left, top],
+    [right, top],
+    [left, bottom],
+    [right, bottom],
+  ].map(([px, py]) => ({ x: ox + px * cos - py * sin, y: oy + px * sin + py * cos }));
+  const xs = corners.map((c) => c.x);
+  const ys = corners.map((c) => c.y);
+  return { x: Math.min(...xs), y: Math.min(...ys), w: Math.max(...xs) - Math.min(...xs), h: Math.max(...ys) - Math.min(...ys) };
+};
+
+interface LayerItemOptions {
+  previewEnabled: boolean; // 끄면 텍스트 영역 내용은 그리지 않음
+  guides: boolean; // 경계선 / 반투명 배경 / ID 표시 (편집 화면)
+  boundsCache: Map<number, { sig: string; bounds: Rect }>; // 텍스트 영역 범위 (줄바꿈 계산 결과)
+}
+
+// 레이어 순서대로 (숨긴 레이어 제외) CanvasItem 목록으로 변환 - 내용은 결과물과 같은 장면 렌더러로 그림
+const buildLayerItems = (
+  ctx: CanvasRenderingContext2D,
+  state: HistoryState,
+  assets: SceneAssets,
+  { previewEnabled, guides, boundsCache }: LayerItemOptions
+): CanvasItem[] => {
+  const LABEL_PAD = 6;
+
+  const selectionItem = (layer: Layer, sel: SelectionArea): CanvasItem => {
+    const { replacementImage, ...rest } = sel;
+    const replImg = sel.type === 'image-replace' ? assets.replacementImages.get(sel.id) : undefined;
+    const text = state.replacements[sel.id] || '';
+    // v4.0: 미리보기가 켜져 있으면 결과물과 같은 내용(빈 텍스트면 지운 배경)을 그림
+    const showText = sel.type === 'text' && previewEnabled;
+    const sig = JSON.stringify([rest, replacementImage?.length ?? 0, !!replImg?.complete, showText ? text : '', guides]);
+    const rotation = sel.type === 'text' ? sel.textRotation || 0 : 0;
+
+    // 텍스트 영역 범위는 줄바꿈 계산이 필요하므로 영역별로 캐시
+    let contentBounds: Rect | null = null;
+    if (showText) {
+      const cached = boundsCache.get(sel.id);
+      contentBounds = cached && cached.sig === sig ? cached.bounds : selectionContentBounds(ctx, sel, text);
+      boundsCache.set(sel.id, { sig, bounds: contentBounds });
+    }
+    const outline = padRect(getRotatedBounds(sel.x, sel.y, sel.w, sel.h, rotation), guides ? LABEL_PAD : 2);
+
+    return {
+      key: `sel-${sel.id}`,
+      sig,
+      bounds: contentBounds
+        ? unionRects([contentBounds, outline])
+        : sel.type === 'image-replace' && sel.imageRotation
+        ? unionRects([getRotatedBounds(sel.x, sel.y, sel.w, sel.h, sel.imageRotation), outline])
+        : outline,
+      draw: (ctx) => {
+        // v3.5: 실시간 텍스트 미리보기 (회전 지원, v4.0: 결과물과 같은 장면 렌더러)
+        if (showText || sel.type !== 'text') drawSceneLayer(ctx, layer, state, assets);
+        if (!guides) return;
+
+        // v3.5.2: 선택 영역 경계선도 회전 적용
+        ctx.save();
+        const centerX = sel.x + sel.w / 2;
+        const centerY = sel.y + sel.h / 2;
+        ctx.translate(centerX, centerY);
+        if (rotation) {
+          ctx.rotate((rotation * Math.PI) / 180);
+        }
+
+        ctx.strokeStyle = sel.type === 'text' ? '#ef4444' : sel.type === 'image-ai' ? '#a855f7' : '#f59e0b';
+        ctx.lineWidth = 3;
+        ctx.setLineDash([8, 4]);
+        ctx.strokeRect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
+        ctx.setLineDash([]);
+
+        // 미리보기가 꺼져있거나 텍스트가 없을 때만 반투명 배경
+        if (!showText || !text) {
+          ctx.fillStyle = sel.type === 'text' ? 'rgba(239,68,68,0.1)' : sel.type === 'image-ai' ? 'rgba(168,85,247,0.1)' : 'rgba(245,158,11,0.1)';
+          ctx.fillRect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
+        }
+
+        // ID 표시 (회전된 영역의 좌상단)
+        ctx.fillStyle = sel.type === 'text' ? '#ef4444' : sel.type === 'image-ai' ? '#a855f7' : '#f59e0b';
+        ctx.font = 'bold 14px sans-serif';
+        ctx.fillText(`#${sel.id}`, -sel.w / 2 + 4, -sel.h / 2 + 18);
+        ctx.restore();
+      },
+    };
+  };
+
+  const stickerItem = (layer: Layer, stk: Sticker): CanvasItem => {
+    const img = assets.stickerImages.get(stk.id);
+    const { src, ...rest } = stk;
+    const halfW = (stk.w * stk.scale) / 2;
+    const halfH = (stk.h * stk.scale) / 2;
+    return {
+      key: `stk-${stk.id}`,
+      sig: JSON.stringify([rest, src.length, !!img?.complete]),
+      bounds: padRect(rotatedRectAround(stk.x, stk.y, -halfW, -halfH, halfW, halfH, stk.rotation), 2),
+      draw: (ctx) => drawSceneLayer(ctx, layer, state, assets),
+    };
+  };
+
+  const customTextItem = (layer: Layer, txt: CustomText): CanvasItem => {
+    const box = measureCustomText(ctx, txt);
+    return {
+      key: `txt-${txt.id}`,
+      sig: JSON.stringify(txt),
+      bounds: padRect(rotatedRectAround(txt.x, txt.y, box.left, box.top, box.right, box.bottom, txt.rotation), 4),
+      draw: (ctx) => drawSceneLayer(ctx, layer, state, assets),
+    };
+  };
+
+  const items: CanvasItem[] = [];
+  resolveLayers(state).forEach((layer) => {
+    if (layer.hidden) return;
+    if (layer.kind === 'selection') {
+      items.push(selectionItem(layer, state.selections.find((s) => s.id === layer.id)!));
+    } else if (layer.kind === 'sticker') {
+      items.push(stickerItem(layer, state.stickers.find((s) => s.id === layer.id)!));
+    } else {
+      items.push(customTextItem(layer, state.customTexts.find((t) => t.id === layer.id)!));
+    }
+  });
+  return items;
+};
+
+// 직전 프레임의 항목 구성 (키 순서 + 항목별 sig / 영역)
+interface CanvasFrame {
+  keys: string[];
+  items: Map<string, { sig: string; bounds: Rect }>;
+}
+
+// v4.0: 직전 프레임과 비교해 바뀐 항목의 (이전+현재) 영역만 기본 레이어(base) 위에 다시 그림
+// prev 가 없거나 겹치는 순서가 바뀌면 전체를 다시 그린다. 바뀐 것이 없으면 null
+// clip = 다시 그린 영역 (null 이면 전체)
+const paintCanvasItems = (
+  ctx: CanvasRenderingContext2D,
+  base: CanvasImageSource,
+  items: CanvasItem[],
+  prev: CanvasFrame | null
+): { frame: CanvasFrame; clip: Rect | null } | null => {
+  const { width, height } = ctx.canvas;
+  const keys = items.map((item) => item.key);
+
+  let clip: Rect | null = null;
+  if (prev) {
+    const current = new Set(keys);
+    const sameOrder =
+      prev.keys.filter((key) => current.has(key)).join('|') === keys.filter((key) => prev.items.has(key)).join('|');
+    if (sameOrder) {
+      const dirty: Rect[] = [];
+      items.forEach((item) => {
+        const old = prev.items.get(item.key);
+        if (old && old.sig === item.sig) return;
+        dirty.push(item.bounds);
+        if (old) dirty.push(old.bounds);
+      });
+      prev.items.forEach((old, key) => {
+        if (!current.has(key)) dirty.push(old.bounds);
+      });
+      if (dirty.length === 0) return null;
+
+      const area = unionRects(dirty);
+      const x0 = Math.max(0, Math.floor(area.x));
+      const y0 = Math.max(0, Math.floor(area.y));
+      const x1 = Math.min(width, Math.ceil(area.x + area.w));
+      const y1 = Math.min(height, Math.ceil(area.y + area.h));
+      if (x1 <= x0 || y1 <= y0) {
+        clip = { x: 0, y: 0, w: 0, h: 0 };
+      } else if ((x1 - x0) * (y1 - y0) < width * height * FULL_REDRAW_RATIO) {
+        clip = { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+      }
+    }
+  }
+
+  const frame: CanvasFrame = {
+    keys,
+    items: new Map(items.map((item) => [item.key, { sig: item.sig, bounds: item.bounds }])),
+  };
+  if (clip && (clip.w === 0 || clip.h === 0)) return { frame, clip }; // 바뀐 곳이 캔버스 밖
+
+  ctx.save();
+  if (clip) {
+    ctx.beginPath();
+    ctx.rect(clip.x, clip.y, clip.w, clip.h);
+    ctx.clip();
+    ctx.clearRect(clip.x, clip.y, clip.w, clip.h);
+    ctx.drawImage(base, clip.x, clip.y, clip.w, clip.h, clip.x, clip.y, clip.w, clip.h);
+  } else {
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(base, 0, 0);
+  }
+  items.forEach((item) => {
+    if (clip && !rectsIntersect(item.bounds, clip)) return;
+    ctx.save();
+    item.draw(ctx);
+    ctx.restore();
+  });
+  ctx.restore();
+  return { frame, clip };
+};
+
+// =====================================================
+// 🎛️ v4.0: 변형 핸들 (크기 조절 / 회전)
+// =====================================================
+type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+type TransformHandle = ResizeHandle | 'rotate';
+
+// 회전된 상자 - 중심 좌표 + 회전 전 크기
+interface TransformFrame {
+  cx: number;
+  cy: number;
+  w: number;
+  h: number;
+  rotation: number;
+}
+
+interface HandleOptions {
+  resize: boolean; // 크기 조절 핸들 (여러 개 선택 시에는 회전만)
+  edges: boolean;  // 변 가운데 핸들 (글씨는 비율 고정이라 모서리만)
+  rotate: boolean; // 회전 손잡이 (회전이 없는 이미지 영역은 제외)
+}
+
+const HANDLE_SIZE = 10;          // 화면 픽셀 기준
+const ROTATE_HANDLE_OFFSET = 28; // 화면 픽셀 기준
+const MIN_TRANSFORM_SIZE = 10;
+const ROTATE_SNAP_DEGREES = 15;
+
+const RESIZE_HANDLE_DIRS: Record<ResizeHandle, [number, number]> = {
+  nw: [-1, -1],
+  n: [0, -1],
+  ne: [1, -1],
+  e: [1, 0],
+  se: [1, 1],
+  s: [0, 1],
+  sw: [-1, 1],
+  w: [-1, 0],
+};
+
+const RESIZE_HANDLES = Object.keys(RESIZE_HANDLE_DIRS) as ResizeHandle[];
+
+const toFrameLocal = (frame: TransformFrame, x: number, y: number) => {
+  const rad = (-frame.rotation * Math.PI) / 180;
+  const dx = x - frame.cx;
+  const dy = y - frame.cy;
+  return { x: dx * Math.cos(rad) - dy * Math.sin(rad), y: dx * Math.sin(rad) + dy * Math.cos(rad) };
+};
+
+const fromFrameLocal = (frame: TransformFrame, lx: number, ly: number) => {
+  const rad = (frame.rotation * Math.PI) / 180;
+  return {
+    x: frame.cx + lx * Math.cos(rad) - ly * Math.sin(rad),
+    y: frame.cy + lx * Math.sin(rad) + ly * Math.cos(rad),
+  };
+};
+
+// unit = 화면 1px 에 해당하는 캔버스 픽셀 수 (핸들 크기를 화면 기준으로 유지)
+const frameHandlePoints = (frame: TransformFrame, unit: number, options: HandleOptions) => {
+  const points: { handle: TransformHandle; x: number; y: number }[] = RESIZE_HANDLES.filter(
+    (handle) =>
+      options.resize && (options.edges || (RESIZE_HANDLE_DIRS[handle][0] !== 0 && RESIZE_HANDLE_DIRS[handle][1] !== 0))
+  ).map((handle) => ({
+    handle,
+    x: (RESIZE_HANDLE_DIRS[handle][0] * frame.w) / 2,
+    y: (RESIZE_HANDLE_DIRS[handle][1] * frame.h) / 2,
+  }));
+  if (options.rotate) points.push({ handle: 'rotate', x: 0, y: -frame.h / 2 - ROTATE_HANDLE_OFFSET * unit });
+  return points;
+};
+
+const hitTransformHandle = (
+  frame: TransformFrame,
+  x: number,
+  y: number,
+  unit: number,
+  options: HandleOptions,
+  tolerance = HANDLE_SIZE * unit
+): TransformHandle | null => {
+  const local = toFrameLocal(frame, x, y);
+  const hit = frameHandlePoints(frame, unit, options)
+    .reverse()
+    .find((point) => Math.abs(local.x - point.x) <= tolerance && Math.abs(local.y - point.y) <= tolerance);
+  return hit ? hit.handle : null;
+};
+
+// 반대쪽 모서리/변을 고정한 채 크기 조절. keepAspect 면 원래 비율 유지
+const resizeFrame = (
+  frame: TransformFrame,
+  handle: ResizeHandle,
+  x: number,
+  y: number,
+  keepAspect: boolean
+): TransformFrame => {
+  const [dx, dy] = RESIZE_HANDLE_DIRS[handle];
+  const local = toFrameLocal(frame, x, y);
+  const anchorX = (-dx * frame.w) / 2;
+  const anchorY = (-dy * frame.h) / 2;
+  let w = dx ? Math.max(MIN_TRANSFORM_SIZE, (local.x - anchorX) * dx) : frame.w;
+  let h = dy ? Math.max(MIN_TRANSFORM_SIZE, (local.y - anchorY) * dy) : frame.h;
+
+  if (keepAspect) {
+    const ratio = dx && dy ? Math.max(w / frame.w, h / frame.h) : dx ? w / frame.w : h / frame.h;
+    const clamped = Math.max(ratio, MIN_TRANSFORM_SIZE / Math.min(frame.w, frame.h));
+    w = frame.w * clamped;
+    h = frame.h * clamped;
+  }
+
+  const center = fromFrameLocal(frame, dx ? anchorX + (dx * w) / 2 : 0, dy ? anchorY + (dy * h) / 2 : 0);
+  return { cx: center.x, cy: center.y, w, h, rotation: frame.rotation };
+};
+
+// 중심 기준 회전. snap 이면 15° 단위
+const rotateFrame = (frame: TransformFrame, x: number, y: number, snap: boolean): TransformFrame => {
+  let angle = (Math.atan2(y - frame.cy, x - frame.cx) * 180) / Math.PI + 90;
+  angle = snap ? Math.round(angle / ROTATE_SNAP_DEGREES) * ROTATE_SNAP_DEGREES : Math.round(angle);
+  return { ...frame, rotation: ((angle + 540) % 360) - 180 };
+};
+
+// 드래그 시작 시점 기준으로 계산 (누적 오차 없이)
+interface TransformDrag {
+  handle: TransformHandle;
+  kind: LayerKind;
+  id: number;
+  frame: TransformFrame;
+  offsetX: number; // 기준점(x, y) → 상자 중심, 회전 전 좌표 (글씨만 0 이 아님)
+  offsetY: number;
+  scale: number;   // 글씨 시작 배율
+}
+
+const transformCursor = (handle: TransformHandle, rotation: number) => {
+  if (handle === 'rotate') return 'grab';
+  const [dx, dy] = RESIZE_HANDLE_DIRS[handle];
+  const angle = (Math.atan2(dy, dx) * 180) / Math.PI + rotation;
+  const idx = ((Math.round(angle / 45) % 4) + 4) % 4;
+  return ['ew-resize', 'nwse-resize', 'ns-resize', 'nesw-resize'][idx];
+};
+
+const transformFrameBounds = (frame: TransformFrame, unit: number): Rect =>
+  padRect(
+    rotatedRectAround(
+      frame.cx,
+      frame.cy,
+      -frame.w / 2,
+      -frame.h / 2 - ROTATE_HANDLE_OFFSET * unit,
+      frame.w / 2,
+      frame.h / 2,
+      frame.rotation
+    ),
+    HANDLE_SIZE * unit + 2
+  );
+
+const drawTransformHandles = (
+  ctx: CanvasRenderingContext2D,
+  frame: TransformFrame,
+  unit: number,
+  options: HandleOptions
+) => {
+  const size = HANDLE_SIZE * unit;
+  ctx.save();
+  ctx.translate(frame.cx, frame.cy);
+  ctx.rotate((frame.rotation * Math.PI) / 180);
+  ctx.strokeStyle = '#2563eb';
+  ctx.lineWidth = 1.5 * unit;
+  ctx.strokeRect(-frame.w / 2, -frame.h / 2, frame.w, frame.h);
+
+  frameHandlePoints(frame, unit, options).forEach((point) => {
+    ctx.fillStyle = '#ffffff';
+    if (point.handle === 'rotate') {
+      ctx.beginPath();
+      ctx.moveTo(0, -frame.h / 2);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, size / 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      return;
+    }
+    ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+    ctx.strokeRect(point.x - size / 2, point.y - size / 2, size, size);
+  });
+  ctx.restore();
+};
+
+// =====================================================
+// 🔍 v4.0: 보기 (확대 / 이동)
+// =====================================================
+// 화면(보기 영역 기준 CSS px) = 캔버스 px × zoom + (x, y)
+interface Viewport {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const ZOOM_PRESETS = [1, 2, 4]; // 100% = 캔버스 1px 이 화면 1px
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;          // 버튼 한 번
+const WHEEL_ZOOM_STEP = 1.0015;  // 휠 deltaY 1 당
+const MINIMAP_WIDTH = 160;
+
+// 보기 영역 너비에 맞춤 (작은 이미지는 늘리지 않음)
+const fitViewport = (canvasW: number, viewW: number): Viewport => {
+  const zoom = canvasW > 0 && viewW > 0 ? Math.min(1, viewW / canvasW) : 1;
+  return { zoom, x: Math.max(0, (viewW - canvasW * zoom) / 2), y: 0 };
+};
+
+// 캔버스가 보기 영역보다 작으면 가운데, 크면 바깥 빈 곳이 보이지 않게
+const clampViewport = (vp: Viewport, canvasW: number, canvasH: number, viewW: number, viewH: number): Viewport => {
+  const clampAxis = (offset: number, content: number, view: number) =>
+    content <= view ? (view - content) / 2 : Math.min(0, Math.max(view - content, offset));
+  return { zoom: vp.zoom, x: clampAxis(vp.x, canvasW * vp.zoom, viewW), y: clampAxis(vp.y, canvasH * vp.zoom, viewH) };
+};
+
+// 화면 (px, py) 아래의 캔버스 지점을 고정한 채 배율 변경
+const zoomViewportAt = (vp: Viewport, zoom: number, px: number, py: number): Viewport => ({
+  zoom,
+  x: px - ((px - vp.x) * zoom) / vp.zoom,
+  y: py - ((py - vp.y) * zoom) / vp.zoom,
+});
+
+const screenToCanvas = (vp: Viewport, sx: number, sy: number) => ({
+  x: (sx - vp.x) / vp.zoom,
+  y: (sy - vp.y) / vp.zoom,
+});
+
+// =====================================================
+// 🧩 v4.0: 다중 선택 / 그룹 / 정렬
+// =====================================================
+type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+const ALIGN_OPTIONS: { mode: AlignMode; icon: string; label: string }[] = [
+  { mode: 'left', icon: '⇤', label: '왼쪽' },
+  { mode: 'center', icon: '↔', label: '가운데' },
+  { mode: 'right', icon: '⇥', label: '오른쪽' },
+  { mode: 'top', icon: '⤒', label: '위' },
+  { mode: 'middle', icon: '↕', label: '중간' },
+  { mode: 'bottom', icon: '⤓', label: '아래' },
+];
+
+const isLayerRef = (ref: LayerRef, layer: Layer) => ref.type === layer.kind && ref.id === layer.id;
+
+const frameBounds = (frame: TransformFrame): Rect =>
+  rotatedRectAround(frame.cx, frame.cy, -frame.w / 2, -frame.h / 2, frame.w / 2, frame.h / 2, frame.rotation);
+
+const rectContains = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.w <= outer.x + outer.w && inner.y + inner.h <= outer.y + outer.h;
+
+// 선택 전체를 감싸는 상자의 한쪽 변 / 가운데에 맞추도록 각 상자를 옮길 거리
+const alignOffsets = (boxes: Rect[], mode: AlignMode) => {
+  const all = unionRects(boxes);
+  return boxes.map((box) => {
+    if (mode === 'left') return { dx: all.x - box.x, dy: 0 };
+    if (mode === 'center') return { dx: all.x + all.w / 2 - (box.x + box.w / 2), dy: 0 };
+    if (mode === 'right') return { dx: all.x + all.w - (box.x + box.w), dy: 0 };
+    if (mode === 'top') return { dx: 0, dy: all.y - box.y };
+    if (mode === 'middle') return { dx: 0, dy: all.y + all.h / 2 - (box.y + box.h / 2) };
+    return { dx: 0, dy: all.y + all.h - (box.y + box.h) };
+  });
+};
+
+// 양 끝 상자는 그대로 두고 사이 간격을 같게
+const distributeOffsets = (boxes: Rect[], axis: 'x' | 'y') => {
+  const size = axis === 'x' ? 'w' : 'h';
+  const order = boxes.map((_, idx) => idx).sort((a, b) => boxes[a][axis] - boxes[b][axis]);
+  const first = boxes[order[0]];
+  const last = boxes[order[order.length - 1]];
+  const total = boxes.reduce((sum, box) => sum + box[size], 0);
+  const gap = (last[axis] + last[size] - first[axis] - total) / (boxes.length - 1);
+
+  const offsets = boxes.map(() => ({ dx: 0, dy: 0 }));
+  let pos = first[axis];
+  order.forEach((idx) => {
+    const delta = pos - boxes[idx][axis];
+    offsets[idx] = axis === 'x' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta };
+    pos += boxes[idx][size] + gap;
+  });
+  return offsets;
+};
+
+// =====================================================
+// 👆 v4.0: 터치 / 펜 입력
+// =====================================================
+// 손가락은 가려지고 부정확하므로 판정 영역을 넓힘 (펜/마우스는 그대로)
+const TOUCH_HIT_SLOP = 12;      // 화면 픽셀 기준
+const TOUCH_HANDLE_SIZE = 22;   // 화면 픽셀 기준
+const LONG_PRESS_MS = 500;
+const LONG_PRESS_MOVE_TOLERANCE = 8; // 화면 픽셀 - 이보다 움직이면 길게 누르기 취소
+
+interface ClientPoint {
+  x: number;
+  y: number;
+}
+
+const pointerDistance = (a: ClientPoint, b: ClientPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const pointerMidpoint = (a: ClientPoint, b: ClientPoint): ClientPoint => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// =====================================================
+// ⌨️ v4.0: 단축키
+// =====================================================
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10; // Shift
+const DUPLICATE_OFFSET = 10;
+
+const DRAW_MODE_KEYS: Record<string, SelectionType> = {
+  t: 'text',
+  a: 'image-ai',
+  r: 'image-replace',
+};
+
+// 단축키 안내 (실제 처리는 App 의 handleShortcutKeyDown)
+const SHORTCUT_GROUPS: { title: string; items: { keys: string[]; label: string }[] }[] = [
+  {
+    title: '편집',
+    items: [
+      { keys: ['Ctrl', 'Z'], label: '실행취소' },
+      { keys: ['Ctrl', 'Shift', 'Z'], label: '다시실행 (Ctrl+Y 도 가능)' },
+      { keys: ['Ctrl', 'D'], label: '선택한 항목 복제' },
+      { keys: ['Ctrl', 'A'], label: '모두 선택' },
+      { keys: ['Ctrl', 'G'], label: '그룹 만들기 (Ctrl+Shift+G: 해제)' },
+      { keys: ['Delete'], label: '선택한 항목 삭제' },
+      { keys: ['←', '↑', '→', '↓'], label: `선택한 항목 ${NUDGE_STEP}px 이동 (Shift: ${NUDGE_STEP_LARGE}px)` },
+    ],
+  },
+  {
+    title: '모드',
+    items: [
+      { keys: ['T'], label: '텍스트 영역' },
+      { keys: ['A'], label: 'AI 수정 영역' },
+      { keys: ['R'], label: '이미지 대체 영역' },
+      { keys: ['Esc'], label: '스포이드 / 그리기 취소, 선택 해제' },
+    ],
+  },
+  {
+    title: '보기',
+    items: [
+      { keys: ['휠'], label: '확대 / 축소' },
+      { keys: ['Space', '드래그'], label: '화면 이동' },
+      { keys: ['두 손가락'], label: '터치: 확대 / 축소 / 이동' },
+      { keys: ['길게 누르기'], label: '항목 메뉴 (마우스: 오른쪽 클릭)' },
+      { keys: ['Shift', '드래그'], label: '핸들: 비율 유지 / 15° 단위 회전 · 빈 곳: 범위 선택' },
+      { keys: ['Shift', '클릭'], label: '선택에 추가 / 빼기' },
+      { keys: ['?'], label: '이 도움말 열기/닫기' },
+    ],
+  },
+];
+
+// 입력칸에서 누른 키는 단축키로 처리하지 않음
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Space 로 누르는 요소 (버튼 등) 에 포커스가 있으면 Space 이동 모드를 쓰지 않음
+const isActivatableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('button, summary, a[href], [role="button"]');
+
+function App() {
+  const [image, setImage] = useState<string | null>(null);
+  const [originalImageData, setOriginalImageData] = useState<ImageData | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [processStep, setProcessStep] = useState<string>('');
+  const [selections, setSelections] = useState<SelectionArea[]>([]);
+  const [replacements, setReplacements] = useState<{ [key: number]: string }>({});
+  const [resultImage, setResultImage] = useState<string | null>(null);
+  
+  const [drawMode, setDrawMode] = useState<SelectionType>('text');
+  
+  const [stickers, setStickers] = useState<Sticker[]>([]);
+  const [customTexts, setCustomTexts] = useState<CustomText[]>([]);
+  const [layers, setLayers] = useState<Layer[]>([]); // v4.0: 레이어 순서/표시/잠금
+  // v4.0: 여러 개 선택 가능. selectedId 는 하나만 선택됐을 때의 항목
+  const [selectedItems, setSelectedItems] = useState<LayerRef[]>([]);
+  const selectedId = selectedItems.length === 1 ? selectedItems[0] : null;
+
+  const [isKeySelected, setIsKeySelected] = useState<boolean | null>(null);
+  const [manualKey, setManualKey] = useState<string>('');
+  const [showManualInput, setShowManualInput] = useState(false);
+  const [keySaved, setKeySaved] = useState(false);
+
+  // v4.0: history = 변경 단계 목록, historyIndex = 적용된 단계 수
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyIndex, setHistoryIndex] = useState(0);
+  // 마지막으로 기록(또는 적용)된 상태 - 다음 변경은 이것과 비교해 기록
+  const committedStateRef = useRef<HistoryState>(EMPTY_EDIT_STATE);
+  // 드래그 / 방향키처럼 한 동작 안의 변경을 한 단계로 묶음
+  const historyGroupRef = useRef<{ label?: string; entry: HistoryEntry | null } | null>(null);
+  // 다음에 기록될 단계 이름 (모두 바꾸기, 복제 등)
+  const historyLabelRef = useRef<string | null>(null);
+  const [imagesVersion, setImagesVersion] = useState(0);
+  
+  const [eyedropperMode, setEyedropperMode] = useState<{active: boolean, selectionId: number | null, target: 'text' | 'bg'}>({active: false, selectionId: null, target: 'text'});
+
+  const [pdfDoc, setPdfDoc] = useState<any>(null);
+  const [currentPageNum, setCurrentPageNum] = useState(1);
+  const [numPages, setNumPages] = useState(0);
+  // v3.9: 현재 페이지 외 페이지들의 편집 상태 + 썸네일
+  const [pageStates, setPageStates] = useState<{ [pageNum: number]: PageEditState }>({});
+  const [pageThumbnails, setPageThumbnails] = useState<string[]>([]);
+  const pageLoadingRef = useRef(false);
+  const thumbnailJobRef = useRef(0);
+  // OCR 처럼 오래 걸리는 작업이 끝났을 때 대상 영역 / 페이지가 그대로인지 확인용
+  const liveTargetRef = useRef({ selections, currentPageNum });
+  liveTargetRef.current = { selections, currentPageNum };
+
+  const [autoAnalyzeEnabled, setAutoAnalyzeEnabled] = useState(true);
+
+  // v3.6: 선택 시 원문 자동 인식 (OCR)
+  const [ocrEnabled, setOcrEnabled] = useState(true);
+  const [ocrBusyIds, setOcrBusyIds] = useState<number[]>([]);
+  const [fontMatchBusyIds, setFontMatchBusyIds] = useState<number[]>([]); // v3.8
+
+  // v3.6: 페이지 스캔 후보 (수락 전까지 selections 에 들어가지 않음)
+  const [scanLevel, setScanLevel] = useState<OcrScanLevel>('line');
+  const [scanCandidates, setScanCandidates] = useState<SelectionArea[]>([]);
+
+  // v3.6: 오타 사전 (사용자 편집, localStorage 저장)
+  const [typoDictionary, setTypoDictionary] = useState<TypoEntry[]>(loadTypoDictionary);
+  const [newTypo, setNewTypo] = useState<TypoEntry>({ wrong: '', right: '' });
+  const spellRules = useMemo(() => createSpellRules(typoDictionary), [typoDictionary]);
+  
+  // v3.4: 실시간 미리보기 토글
+  const [previewEnabled, setPreviewEnabled] = useState(true);
+
+  // v4.0: 결과물 내보내기 설정 (형식/품질/메타데이터) + 인코딩된 결과
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('image/png');
+  const [exportQuality, setExportQuality] = useState(DEFAULT_EXPORT_QUALITY);
+  const [stripMetadata, setStripMetadata] = useState(true);
+  const [exportBlob, setExportBlob] = useState<Blob | null>(null);
+
+  // v4.0: 현재 페이지의 편집 상태 묶음 + 실제 그리기 순서
+  const editState: HistoryState = { selections, replacements, stickers, customTexts, layers };
+  const orderedLayers = useMemo(
+    () => resolveLayers({ selections, replacements, stickers, customTexts, layers }),
+    [selections, replacements, stickers, customTexts, layers]
+  );
+
+  // v4.0: 찾기 / 바꾸기
+  const [findOptions, setFindOptions] = useState<FindOptions>({
+    query: '',
+    replacement: '',
+    caseSensitive: false,
+    useRegex: false,
+  });
+  const findPattern = useMemo(() => buildFindPattern(findOptions), [findOptions]);
+  const findResult = useMemo(
+    () =>
+      findPattern
+        ? findAndReplace(editState, findPattern, findOptions)
+        : null,
+    [findPattern, findOptions, selections, replacements, stickers, customTexts, layers]
+  );
+
+  // v4.0: 일괄 처리 큐 + 공통 찾기→바꾸기 규칙
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [batchRules, setBatchRules] = useState<TypoEntry[]>(loadBatchRules);
+  const [newBatchRule, setNewBatchRule] = useState<TypoEntry>({ wrong: '', right: '' });
+  const [batchRunning, setBatchRunning] = useState(false);
+  const [activeBatchId, setActiveBatchId] = useState<number | null>(null); // 편집기로 연 항목
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+  const resultRef = useRef<HTMLDivElement>(null);
+  const isDrawing = useRef(false);
+  const isMoving = useRef(false);
+  const startPos = useRef({ x: 0, y: 0 });
+  // v4.0: 변형 핸들 드래그 (여러 개 선택 시 항목별 drag + 전체 상자)
+  const transformRef = useRef<TransformDrag | null>(null);
+  const groupTransformRef = useRef<{ frame: TransformFrame; drags: TransformDrag[] } | null>(null);
+  const marqueeRef = useRef<Rect | null>(null);
+  const [hoverCursor, setHoverCursor] = useState<string | null>(null);
+
+  // v4.0: 보기 (확대 / 이동) - manualViewport 가 null 이면 화면 맞춤
+  const viewportElRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const panRef = useRef<{ sx: number; sy: number; vp: Viewport } | null>(null);
+  const minimapDragRef = useRef(false);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [manualViewport, setManualViewport] = useState<Viewport | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+
+  // v4.0: 터치 / 펜 - 화면에 닿아 있는 포인터, 두 손가락 확대/이동, 길게 누르기 메뉴
+  const activePointersRef = useRef(new Map<number, ClientPoint>());
+  const pinchRef = useRef<{ dist: number; mid: ClientPoint; vp: Viewport } | null>(null);
+  const longPressRef = useRef<{ timer: number; start: ClientPoint } | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; layer: Layer } | null>(null);
+
+  // v4.0: 단축키 - 방향키를 누르고 있는 동안의 이동은 한 단계로 기록
+  const nudgingRef = useRef(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  const canvasW = originalImageData?.width || 0;
+  const canvasH = originalImageData?.height || 0;
+  const fitView = fitViewport(canvasW, viewWidth);
+  const viewHeight = canvasH * fitView.zoom;
+  const viewport = manualViewport ? clampViewport(manualViewport, canvasW, canvasH, viewWidth, viewHeight) : fitView;
+  const isZoomed = viewport.zoom > fitView.zoom + 1e-6;
+  // 휠 / 키 리스너는 한 번만 등록하므로 최신 보기 상태를 ref 로 전달
+  const viewStateRef = useRef({ viewport, fitView, viewWidth, viewHeight });
+  viewStateRef.current = { viewport, fitView, viewWidth, viewHeight };
+  const stickerImagesRef = useRef<Map<number, HTMLImageElement>>(new Map());
+  const replacementImagesRef = useRef<Map<number, HTMLImageElement>>(new Map());
+  // v3.7: 인페인팅/글자 지우기 결과 캐시 (선택 영역 id → 위치·방식 키 + 패치)
+  const inpaintCacheRef = useRef<InpaintCache>(new Map());
+  // v3.9: 프로젝트 저장용 원본 파일 (PDF/이미지 원본 그대로)
+  const sourceFileRef = useRef<SourceFile | null>(null);
+  // 원본 읽기는 비동기라 늦게 끝난 이전 파일의 결과는 버림
+  const sourceJobRef = useRef(0);
+  const [sourceReady, setSourceReady] = useState(false);
+  // v4.0: 원본 해상도 그대로의 결과 캔버스 (내보내기 인코딩용)
+  const resultCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // v4.0: 렌더링 캐시 - 텍스트 영역이 그리는 범위 / 직전 프레임 구성 / 드래그 중인 새 영역
+  const selectionBoundsCacheRef = useRef<Map<number, { sig: string; bounds: Rect }>>(new Map());
+  const lastFrameRef = useRef<CanvasFrame | null>(null);
+  const draftRectRef = useRef<(Rect & { type: SelectionType }) | null>(null);
+  const [fontsVersion, setFontsVersion] = useState(0);
+  // v3.9: 자동 저장 세션 (현재 작업 중인 세션 id/이름)
+  const sessionRef = useRef<{ id: string; name: string } | null>(null);
+  const [autosaveSessions, setAutosaveSessions] = useState<AutosaveSession[]>([]);
+  const [restorePrompt, setRestorePrompt] = useState<AutosaveSession | null>(null);
+
+  useEffect(() => {
+    // v3.5.5: 브라우저 탭 타이틀 설정
+    document.title = '록신 이미지 에디터 v3.5.5';
+    
+    checkInitialKeyStatus();
+    loadPdfLibrary();
+    loadGoogleFonts();
+    const savedKey = localStorage.getItem(STORAGE_KEY);
+    if (savedKey) {
+      setManualKey(savedKey);
+      setKeySaved(true);
+    }
+
+    // v4.0: 웹폰트가 늦게 로드되면 캐시된 글자 범위를 다시 계산한다
+    const onFontsLoaded = () => {
+      selectionBoundsCacheRef.current.clear();
+      lastFrameRef.current = null;
+      setFontsVersion((v) => v + 1);
+    };
+    document.fonts?.addEventListener('loadingdone', onFontsLoaded);
+
+    // v3.9: 지난 세션 복구 제안
+    refreshAutosaveSessions().then((sessions) => {
+      if (sessions[0]) setRestorePrompt(sessions[0]);
+    });
+
+    return () => document.fonts?.removeEventListener('loadingdone', onFontsLoaded);
+  }, []);
+
+  const loadGoogleFonts = () => {
+    const link = document.createElement('link');
+    link.href = 'https://fonts.googleapis.com/css2?family=Noto+Sans+KR:wght@400;700&family=Noto+Serif+KR:wght@400;700&family=Black+Han+Sans&family=Jua&family=Do+Hyeon&family=Nanum+Gothic:wght@400;700&family=Nanum+Myeongjo:wght@400;700&display=swap';
+    link.rel = 'stylesheet';
+    document.head.appendChild(link);
+  };
+
+  // =====================================================
+  // 🚀 v3.2 핵심: 초고속 자동 분석 (OCR 없음!)
+  // =====================================================
+  // v4.0: source 를 넘기면 현재 편집 중이 아닌 이미지도 분석 (일괄 처리)
+  const analyzeTextAreaFast = (
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    source: HTMLCanvasElement | null = originalCanvasRef.current
+  ): TextAreaAnalysis => {
+    const whiteSpec: BackgroundSpec = { kind: 'solid', color: '#ffffff', from: '#ffffff', to: '#ffffff' };
+    const fallback: TextAreaAnalysis = {
+      bgColor: '#ffffff',
+      bgSpec: whiteSpec,
+      textColor: '#000000',
+      fontSize: Math.round(h * 0.7),
+      lineHeight: DEFAULT_LINE_HEIGHT,
+      textOffsetY: 0,
+    };
+    if (!source) {
+      return fallback;
+    }
+
+    const ctx = source.getContext('2d')!;
+    const canvasWidth = source.width;
+    const canvasHeight = source.height;
+
+    // 안전한 좌표 계산
+    const safeX = Math.max(0, Math.min(Math.round(x), canvasWidth - 1));
+    const safeY = Math.max(0, Math.min(Math.round(y), canvasHeight - 1));
+    const safeW = Math.min(Math.round(w), canvasWidth - safeX);
+    const safeH = Math.min(Math.round(h), canvasHeight - safeY);
+
+    if (safeW <= 0 || safeH <= 0) {
+      return fallback;
+    }
+
+    // 1. 배경색 감지: 가장자리 픽셀 샘플링 (매우 빠름) + v3.7 그라데이션 판별
+    const bgSpec = detectBackgroundColorFast(ctx, safeX, safeY, safeW, safeH);
+    const bgColor = bgSpec.color;
+    
+    // 2. 글자색 감지: 배경과 대비되는 색상 찾기
+    const textColor = detectTextColorFast(ctx, safeX, safeY, safeW, safeH, bgColor);
+    
+    // 3. 글자 크기: v3.8 실제 잉크 줄 위치로 추정 (실패 시 영역 높이 기반)
+    let fontSize = Math.round(safeH * 0.7);
+    let lineHeight = DEFAULT_LINE_HEIGHT;
+    let textOffsetY = 0;
+
+    const textRgb = hexToRgb(textColor);
+    const bgRgb = hexToRgb(bgColor);
+    if (textRgb && bgRgb) {
+      const region = ctx.getImageData(safeX, safeY, safeW, safeH);
+      const position = classifyGlyphPixels(region, 0, 0, safeW, safeH, textRgb, bgRgb);
+      const layout = position && measureInkLayout(Uint8Array.from(position, (t) => (t < GLYPH_CORE_T ? 1 : 0)), safeW, safeH);
+      if (layout) {
+        fontSize = Math.round(layout.fontSize);
+        lineHeight = layout.lineHeight;
+        textOffsetY = layout.textOffsetY + (safeY - y) + (safeH - h) / 2;
+      }
+    }
+
+    return { bgColor, bgSpec, textColor, fontSize: Math.max(12, Math.min(200, fontSize)), lineHeight, textOffsetY };
+  };
+
+  // 초고속 배경색 감지: 가장자리 픽셀만 샘플링
+  // v3.7: 8개 점의 배치로 가로/세로/원형 그라데이션 여부도 판별
+  const detectBackgroundColorFast = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number): BackgroundSpec => {
+    const samplePoint = (px: number, py: number): Rgb | null => {
+      try {
+        const pixel = ctx.getImageData(Math.round(px), Math.round(py), 1, 1).data;
+        return { r: pixel[0], g: pixel[1], b: pixel[2] };
+      } catch (e) {
+        return null;
+      }
+    };
+
+    // 4개 모서리 + 4개 변의 중간점 = 8개 포인트만 샘플링
+    const tl = samplePoint(x + 2, y + 2);           // 좌상
+    const tr = samplePoint(x + w - 2, y + 2);       // 우상
+    const bl = samplePoint(x + 2, y + h - 2);       // 좌하
+    const br = samplePoint(x + w - 2, y + h - 2);   // 우하
+    const t = samplePoint(x + w / 2, y + 2);        // 상단 중앙
+    const b = samplePoint(x + w / 2, y + h - 2);    // 하단 중앙
+    const l = samplePoint(x + 2, y + h / 2);        // 좌측 중앙
+    const r = samplePoint(x + w - 2, y + h / 2);    // 우측 중앙
+
+    const samples = [tl, tr, bl, br, t, b, l, r].filter((p): p is Rgb => p !== null);
+    if (samples.length === 0) return { kind: 'solid', color: '#ffffff', from: '#ffffff', to: '#ffffff' };
+
+    // 평균색 계산
+    const avg = {
+      r: samples.reduce((sum, p) => sum + p.r, 0) / samples.length,
+      g: samples.reduce((sum, p) => sum + p.g, 0) / samples.length,
+      b: samples.reduce((sum, p) => sum + p.b, 0) / samples.length,
+    };
+    const color = rgbToCss(avg);
+    const solid: BackgroundSpec = { kind: 'solid', color, from: color, to: color };
+    if (samples.length < 8) return solid;
+
+    const SAME = 24;   // 같은 색으로 볼 차이
+    const STEP = 36;   // 그라데이션으로 볼 최소 변화
+    const p = { tl: tl!, tr: tr!, bl: bl!, br: br!, t: t!, b: b!, l: l!, r: r! };
+    const spec = (kind: BackgroundKind, from: Rgb, to: Rgb): BackgroundSpec => ({ kind, color, from: rgbToCss(from), to: rgbToCss(to) });
+
+    // 가로: 세로줄끼리 같고, 좌→우로 변하며, 가운데가 중간값
+    const left = mixRgb(mixRgb(p.tl, p.bl), p.l, 1 / 3);
+    const right = mixRgb(mixRgb(p.tr, p.br), p.r, 1 / 3);
+    if (
+      colorDistance(left, right) >= STEP &&
+      colorDistance(p.tl, p.bl) < SAME &&
+      colorDistance(p.tr, p.br) < SAME &&
+      colorDistance(mixRgb(p.t, p.b), mixRgb(left, right)) < SAME
+    ) {
+      return spec('horizontal', left, right);
+    }
+
+    // 세로: 가로줄끼리 같고, 위→아래로 변함
+    const top = mixRgb(mixRgb(p.tl, p.tr), p.t, 1 / 3);
+    const bottom = mixRgb(mixRgb(p.bl, p.br), p.b, 1 / 3);
+    if (
+      colorDistance(top, bottom) >= STEP &&
+      colorDistance(p.tl, p.tr) < SAME &&
+      colorDistance(p.bl, p.br) < SAME &&
+      colorDistance(mixRgb(p.l, p.r), mixRgb(top, bottom)) < SAME
+    ) {
+      return spec('vertical', top, bottom);
+    }
+
+    // 원형: 변 중앙끼리 같고, 모서리끼리 같고, 둘이 다름
+    const mids = [p.t, p.b, p.l, p.r];
+    const corners = [p.tl, p.tr, p.bl, p.br];
+    const midAvg = mixRgb(mixRgb(p.t, p.b), mixRgb(p.l, p.r));
+    const cornerAvg = mixRgb(mixRgb(p.tl, p.tr), mixRgb(p.bl, p.br));
+    if (
+      colorDistance(midAvg, cornerAvg) >= STEP &&
+      mids.every((m) => colorDistance(m, midAvg) < SAME) &&
+      corners.every((c) => colorDistance(c, cornerAvg) < SAME)
+    ) {
+      return spec('radial', midAvg, cornerAvg);
+    }
+
+    return solid;
+  };
+
+  // 초고속 글자색 감지: 중앙 영역 샘플링 후 배경과 대비
+  const detectTextColorFast = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, bgColor: string): string => {
+    const bgRgb = hexToRgb(bgColor);
+    if (!bgRgb) return '#000000';
+
+    // 중앙 영역 샘플링
+    const centerX = x + w / 2;
+    const centerY = y + h / 2;
+    const sampleRadius = Math.min(w, h) / 4;
+    
+    const samples: number[][] = [];
+    for (let i = 0; i < 5; i++) {
+      const angle = (i / 5) * Math.PI * 2;
+      const px = centerX + Math.cos(angle) * sampleRadius;
+      const py = centerY + Math.sin(angle) * sampleRadius;
+      try {
+        const pixel = ctx.getImageData(Math.round(px), Math.round(py), 1, 1).data;
+        samples.push([pixel[0], pixel[1], pixel[2]]);
+      } catch (e) {}
+    }
+
+    // 배경과 가장 다른 색상 찾기
+    let maxDiff = 0;
+    let bestColor = '#000000';
+    
+    samples.forEach(([r, g, b]) => {
+      const diff = Math.abs(r - bgRgb.r) + Math.abs(g - bgRgb.g) + Math.abs(b - bgRgb.b);
+      if (diff > maxDiff) {
+        maxDiff = diff;
+        bestColor = rgbToHex(r, g, b);
+      }
+    });
+
+    // 대비가 충분하지 않으면 배경 밝기에 따라 검정/흰색
+    if (maxDiff < 100) {
+      const bgLuminance = getLuminance(bgRgb.r, bgRgb.g, bgRgb.b);
+      return bgLuminance > 0.5 ? '#000000' : '#ffffff';
+    }
+
+    return bestColor;
+  };
+
+  // 주변 배경색 감지 (이미지 대체용)
+  const detectSurroundingColor = (x: number, y: number, w: number, h: number): string => {
+    if (!originalCanvasRef.current) return '#ffffff';
+    
+    const ctx = originalCanvasRef.current.getContext('2d')!;
+    const canvasWidth = originalCanvasRef.current.width;
+    const canvasHeight = originalCanvasRef.current.height;
+    
+    const samples: number[][] = [];
+    const margin = 10;
+    
+    // 선택 영역 바깥의 픽셀 샘플링
+    const points = [
+      [x - margin, y + h/2],
+      [x + w + margin, y + h/2],
+      [x + w/2, y - margin],
+      [x + w/2, y + h + margin],
+    ];
+    
+    points.forEach(([px, py]) => {
+      if (px >= 0 && px < canvasWidth && py >= 0 && py < canvasHeight) {
+        try {
+          const pixel = ctx.getImageData(Math.round(px), Math.round(py), 1, 1).data;
+          samples.push([pixel[0], pixel[1], pixel[2]]);
+        } catch (e) {}
+      }
+    });
+    
+    if (samples.length === 0) return '#ffffff';
+    
+    const avgR = Math.round(samples.reduce((sum, p) => sum + p[0], 0) / samples.length);
+    const avgG = Math.round(samples.reduce((sum, p) => sum + p[1], 0) / samples.length);
+    const avgB = Math.round(samples.reduce((sum, p) => sum + p[2], 0) / samples.length);
+    
+    return rgbToHex(avgR, avgG, avgB);
+  };
+
+  const checkInitialKeyStatus = async () => {
+    if ((window as any).aistudio?.getSelectedApiKey) {
+      try {
         const key = await (window as any).aistudio.getSelectedApiKey();
         setIsKeySelected(!!key);
       } catch {
@@ -338,6 +3157,31 @@ function App() {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    e.target.value = '';
+
+    setActiveBatchId(null);
+    if (file.name.toLowerCase().endsWith(PROJECT_EXTENSION)) {
+      openProject(async () => migrateProject(JSON.parse(await file.text())));
+      return;
+    }
+
+    // v3.9: pdf.js 가 버퍼를 가져가기 전에 원본을 보관
+    const job = ++sourceJobRef.current;
+    sourceFileRef.current = null;
+    setSourceReady(false);
+    readFileAsDataUrl(file)
+      .then((dataUrl) => {
+        if (job !== sourceJobRef.current) return;
+        sourceFileRef.current = { name: file.name, mimeType: file.type, dataUrl };
+        setSourceReady(true);
+      })
+      .catch((error) => {
+        if (job !== sourceJobRef.current) return;
+        console.error('원본 파일 읽기 실패:', error);
+        alert(`원본 파일을 읽지 못해 프로젝트 저장 / 자동 저장을 할 수 없습니다: ${error?.message || error}`);
+      });
+    sessionRef.current = createSessionInfo(file.name);
+    setRestorePrompt(null);
 
     if (file.type === 'application/pdf') {
       loadPdf(file);
@@ -346,286 +3190,693 @@ function App() {
     }
   };
 
-  const loadPdf = async (file: File) => {
-    const pdfjsLib = (window as any).pdfjsLib;
-    if (!pdfjsLib) {
-      alert('PDF 라이브러리 로딩 중... 잠시 후 다시 시도해주세요.');
-      return;
+  const loadPdf = async (file: File) => {
+    await loadPdfData(await file.arrayBuffer(), 1);
+  };
+
+  // 성공 시 실제로 연 페이지 번호를 반환
+  const loadPdfData = async (data: ArrayBuffer, pageNum: number) => {
+    const pdfjsLib = (window as any).pdfjsLib;
+    if (!pdfjsLib) {
+      alert('PDF 라이브러리 로딩 중... 잠시 후 다시 시도해주세요.');
+      return null;
+    }
+
+    const pdf = await pdfjsLib.getDocument(data).promise;
+    const page = Math.min(Math.max(1, pageNum), pdf.numPages);
+    setPdfDoc(pdf);
+    setNumPages(pdf.numPages);
+    setCurrentPageNum(page);
+    setPageStates({});
+    setPageThumbnails([]);
+    await renderPdfPage(pdf, page);
+    renderPdfThumbnails(pdf);
+    return page;
+  };
+
+  // v3.9: 페이지 썸네일 (순차 렌더링, 준비되는 대로 표시)
+  const renderPdfThumbnails = async (pdf: any) => {
+    const job = ++thumbnailJobRef.current;
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / baseViewport.width });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      if (job !== thumbnailJobRef.current) return; // 다른 파일이 열림
+      const thumbnail = canvas.toDataURL('image/jpeg', 0.7);
+      setPageThumbnails((prev) => {
+        const next = [...prev];
+        next[pageNum - 1] = thumbnail;
+        return next;
+      });
+    }
+  };
+
+  const renderPdfPage = async (pdf: any, pageNum: number) => {
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+
+    const canvas = originalCanvasRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    await page.render({ canvasContext: ctx, viewport }).promise;
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    inpaintCacheRef.current.clear();
+    setOriginalImageData(imageData);
+    setImage(canvas.toDataURL('image/png'));
+    setResultImage(null);
+    applyPageEditState({ state: EMPTY_EDIT_STATE, history: [], historyIndex: 0 });
+    setScanCandidates([]);
+  };
+
+  const changePage = (delta: number) => {
+    goToPage(currentPageNum + delta);
+  };
+
+  // v3.9: 현재 페이지 편집 상태를 보관하고 대상 페이지 상태를 복원
+  const goToPage = async (pageNum: number) => {
+    if (!pdfDoc || pageLoadingRef.current) return;
+    if (pageNum === currentPageNum || pageNum < 1 || pageNum > numPages) return;
+
+    pageLoadingRef.current = true;
+    try {
+      const nextPageStates = {
+        ...pageStates,
+        [currentPageNum]: {
+          state: editState,
+          history,
+          historyIndex,
+        },
+      };
+      setPageStates(nextPageStates);
+      setSelectedId(null);
+      setCurrentPageNum(pageNum);
+      await renderPdfPage(pdfDoc, pageNum);
+
+      const saved = nextPageStates[pageNum];
+      if (saved) applyPageEditState(saved);
+    } finally {
+      pageLoadingRef.current = false;
+    }
+  };
+
+  // v4.0: 되살리거나 되돌린 스티커/교체 이미지가 캐시와 다르면 다시 불러와 전체를 다시 그림
+  const syncEditImages = (state: HistoryState) => {
+    const pending = [
+      ...state.stickers
+        .filter((stk) => stickerImagesRef.current.get(stk.id)?.src !== stk.src)
+        .map(async (stk) => stickerImagesRef.current.set(stk.id, await loadImageElement(stk.src))),
+      ...state.selections
+        .filter((sel) => sel.replacementImage && replacementImagesRef.current.get(sel.id)?.src !== sel.replacementImage)
+        .map(async (sel) => replacementImagesRef.current.set(sel.id, await loadImageElement(sel.replacementImage!))),
+    ];
+    if (pending.length === 0) return;
+    // 하나가 실패해도 나머지는 다시 그림
+    Promise.allSettled(pending).then((results) => {
+      results.forEach((result) => {
+        if (result.status === 'rejected') console.warn('편집 이미지 불러오기 실패:', result.reason);
+      });
+      setImagesVersion((v) => v + 1);
+    });
+  };
+
+  // v4.0: 히스토리에 기록하지 않고 상태를 통째로 바꿈 (실행취소 / 페이지 이동 / 불러오기)
+  const applyEditState = (state: HistoryState) => {
+    committedStateRef.current = state;
+    syncEditImages(state);
+    setSelections(state.selections);
+    setReplacements(state.replacements);
+    setStickers(state.stickers);
+    setCustomTexts(state.customTexts);
+    setLayers(state.layers || []);
+  };
+
+  const applyPageEditState = ({ state, history, historyIndex }: PageEditState) => {
+    historyGroupRef.current = null;
+    applyEditState(state);
+    setHistory(history);
+    setHistoryIndex(historyIndex);
+  };
+
+  const pageHasEdits = (pageNum: number) =>
+    pageNum === currentPageNum
+      ? hasEdits(editState)
+      : !!pageStates[pageNum] && hasEdits(pageStates[pageNum].state);
+
+  const loadImage = async (file: File) => {
+    try {
+      await loadImageDataUrl(await readFileAsDataUrl(file));
+    } catch (error: any) {
+      console.error('이미지 불러오기 실패:', error);
+      alert(`이미지를 열 수 없습니다: ${error?.message || error}`);
+    }
+  };
+
+  const loadImageDataUrl = async (dataUrl: string) => {
+    const img = await loadImageElement(dataUrl);
+    const canvas = originalCanvasRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    canvas.width = img.width;
+    canvas.height = img.height;
+    ctx.drawImage(img, 0, 0);
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    inpaintCacheRef.current.clear();
+    setOriginalImageData(imageData);
+
+    setImage(dataUrl);
+    setResultImage(null);
+    applyPageEditState({ state: EMPTY_EDIT_STATE, history: [], historyIndex: 0 });
+    setScanCandidates([]);
+    setPdfDoc(null);
+    setNumPages(0);
+    setCurrentPageNum(1);
+    setPageStates({});
+    setPageThumbnails([]);
+    thumbnailJobRef.current++;
+  };
+
+  // =====================================================
+  // 💾 v3.9: 프로젝트 저장 / 열기
+  // =====================================================
+  const buildProject = (source: SourceFile): ProjectFile => {
+    const pages: ProjectFile['pages'] = {};
+    Object.keys(pageStates).map(Number).forEach((pageNum) => {
+      const { state } = pageStates[pageNum];
+      if (hasEdits(state)) pages[pageNum] = state;
+    });
+    pages[currentPageNum] = editState;
+    return {
+      version: PROJECT_VERSION,
+      savedAt: new Date().toISOString(),
+      source,
+      currentPage: currentPageNum,
+      pages,
+    };
+  };
+
+  const saveProject = () => {
+    const source = sourceFileRef.current;
+    if (!source) return;
+
+    const project = buildProject(source);
+    const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = `${stripExtension(source.name)}${PROJECT_EXTENSION}`;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // 스티커/교체 이미지는 dataURL 로 저장되므로 HTMLImageElement 를 다시 만들어 둔다
+  const restoreEditState = async (pages: ProjectFile['pages'], currentPage: number) => {
+    const states = Object.values(pages);
+    const stickerImages = await Promise.all(
+      states.flatMap((state) =>
+        state.stickers.map(async (s) => [s.id, await loadImageElement(s.src)] as const)
+      )
+    );
+    const replacementImages = await Promise.all(
+      states.flatMap((state) =>
+        state.selections
+          .filter((s) => s.replacementImage)
+          .map(async (s) => [s.id, await loadImageElement(s.replacementImage!)] as const)
+      )
+    );
+    stickerImagesRef.current = new Map(stickerImages);
+    replacementImagesRef.current = new Map(replacementImages);
+
+    const restored: { [pageNum: number]: PageEditState } = {};
+    Object.entries(pages).forEach(([pageNum, state]) => {
+      restored[Number(pageNum)] = { state, history: [], historyIndex: 0 };
+    });
+    const { [currentPage]: current, ...others } = restored;
+    setPageStates(others);
+    applyPageEditState(current ?? { state: EMPTY_EDIT_STATE, history: [], historyIndex: 0 });
+  };
+
+  // session 을 넘기면 해당 자동 저장 세션을 이어서 저장, 없으면 새 세션 시작
+  const openProject = async (
+    readProject: () => Promise<ProjectFile>,
+    session?: { id: string; name: string }
+  ) => {
+    setIsProcessing(true);
+    setProcessStep('프로젝트 여는 중...');
+    setRestorePrompt(null);
+    try {
+      const project = await readProject();
+      const { source } = project;
+
+      let pageNum = 1;
+      if (source.mimeType === 'application/pdf') {
+        const data = await (await fetch(source.dataUrl)).arrayBuffer();
+        const opened = await loadPdfData(data, project.currentPage);
+        if (opened === null) return;
+        pageNum = opened;
+      } else {
+        await loadImageDataUrl(source.dataUrl);
+      }
+      sourceJobRef.current++;
+      sourceFileRef.current = source;
+      setSourceReady(true);
+      sessionRef.current = session ?? createSessionInfo(source.name);
+      await restoreEditState(project.pages, pageNum);
+      setProcessStep('완료!');
+    } catch (error: any) {
+      console.error('프로젝트 열기 실패:', error);
+      alert(`프로젝트를 열 수 없습니다: ${error.message || error}`);
+      setProcessStep('오류 발생');
+    } finally {
+      setTimeout(() => {
+        setIsProcessing(false);
+        setProcessStep('');
+      }, 500);
+    }
+  };
+
+  // =====================================================
+  // 🗄️ v3.9: 자동 저장 세션
+  // =====================================================
+  const refreshAutosaveSessions = async () => {
+    try {
+      const sessions = await listAutosaveSessions();
+      setAutosaveSessions(sessions);
+      return sessions;
+    } catch (error) {
+      console.warn('자동 저장 목록을 불러오지 못했습니다:', error);
+      return [];
     }
-
-    const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument(arrayBuffer).promise;
-    setPdfDoc(pdf);
-    setNumPages(pdf.numPages);
-    setCurrentPageNum(1);
-    renderPdfPage(pdf, 1);
   };
 
-  const renderPdfPage = async (pdf: any, pageNum: number) => {
-    const page = await pdf.getPage(pageNum);
-    const viewport = page.getViewport({ scale: 2 });
-
-    const canvas = originalCanvasRef.current!;
-    const ctx = canvas.getContext('2d')!;
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
-
-    await page.render({ canvasContext: ctx, viewport }).promise;
-
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    setOriginalImageData(imageData);
-    setImage(canvas.toDataURL('image/png'));
-    setResultImage(null);
-    setSelections([]);
-    setReplacements({});
-    setStickers([]);
-    setCustomTexts([]);
-    setHistory([]);
-    setHistoryIndex(-1);
+  const restoreAutosave = (session: AutosaveSession) => {
+    openProject(async () => {
+      const project = await getAutosaveProject(session.id);
+      if (!project) throw new Error('자동 저장 데이터를 찾을 수 없습니다.');
+      return migrateProject(project);
+    }, { id: session.id, name: session.name });
   };
 
-  const changePage = (delta: number) => {
-    if (!pdfDoc) return;
-    const newPageNum = currentPageNum + delta;
-    if (newPageNum < 1 || newPageNum > numPages) return;
-    setCurrentPageNum(newPageNum);
-    renderPdfPage(pdfDoc, newPageNum);
+  const renameSession = async (session: AutosaveSession) => {
+    const name = window.prompt('세션 이름', session.name)?.trim();
+    if (!name || name === session.name) return;
+    try {
+      await renameAutosaveSession(session.id, name);
+      if (sessionRef.current?.id === session.id) sessionRef.current = { ...sessionRef.current, name };
+    } catch (error: any) {
+      console.error('세션 이름 변경 실패:', error);
+      alert(`세션 이름을 바꾸지 못했습니다: ${error?.message || error}`);
+    }
+    refreshAutosaveSessions();
   };
 
-  const loadImage = (file: File) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = originalCanvasRef.current!;
-        const ctx = canvas.getContext('2d')!;
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        setOriginalImageData(imageData);
-
-        setImage(e.target!.result as string);
-        setResultImage(null);
-        setSelections([]);
-        setReplacements({});
-        setStickers([]);
-        setCustomTexts([]);
-        setPdfDoc(null);
-        setNumPages(0);
-        setCurrentPageNum(1);
-        setHistory([]);
-        setHistoryIndex(-1);
-      };
-      img.src = e.target!.result as string;
-    };
-    reader.readAsDataURL(file);
+  const deleteSession = async (session: AutosaveSession) => {
+    if (!window.confirm(`'${session.name}' 자동 저장본을 삭제할까요?`)) return;
+    try {
+      await deleteAutosaveSessions([session.id]);
+      if (restorePrompt?.id === session.id) setRestorePrompt(null);
+    } catch (error: any) {
+      console.error('세션 삭제 실패:', error);
+      alert(`자동 저장본을 삭제하지 못했습니다: ${error?.message || error}`);
+    }
+    refreshAutosaveSessions();
   };
 
+  // 히스토리에 기록되는 편집이 생길 때마다 (디바운스) 현재 상태를 스냅샷
   useEffect(() => {
-    if (image && canvasRef.current) {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = canvasRef.current!;
-        canvas.width = img.width;
-        canvas.height = img.height;
-        redrawCanvas();
-      };
-      img.src = image;
+    const session = sessionRef.current;
+    const source = sourceFileRef.current;
+    if (history.length === 0 || !session || !source) return;
+
+    const timer = setTimeout(async () => {
+      // 이름은 대기 중에 바뀔 수 있으므로 저장 시점의 값을 사용
+      const current = sessionRef.current;
+      if (current?.id !== session.id) return;
+      try {
+        await putAutosaveSession(
+          { ...current, sourceName: source.name, updatedAt: Date.now() },
+          buildProject(source)
+        );
+        refreshAutosaveSessions();
+      } catch (error) {
+        console.warn('자동 저장 실패:', error);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [history, historyIndex, selections, replacements, stickers, customTexts, pageStates]);
+
+  // v4.0: 원본은 originalCanvasRef 에 이미 그려져 있으므로 다시 디코딩하지 않고 기본 레이어로 사용
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const base = originalCanvasRef.current;
+    if (image && canvas && base) {
+      canvas.width = base.width;
+      canvas.height = base.height;
+      selectionBoundsCacheRef.current.clear();
+      redrawCanvas(true);
     }
   }, [image]);
 
+  // v4.0: 핸들 크기 / 선 굵기는 확대율에 따라 달라지므로 zoom 이 바뀌어도 다시 그림
   useEffect(() => {
     redrawCanvas();
-  }, [selections, stickers, customTexts, replacements, previewEnabled]);
+  }, [selections, stickers, customTexts, replacements, layers, previewEnabled, scanCandidates, fontsVersion, selectedItems, viewport.zoom]);
 
-  // v3.4: 줄바꿈 지원 텍스트 래핑
-  const wrapTextWithNewlines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
-    // 먼저 Enter로 구분된 줄 처리
-    const paragraphs = text.split('\n');
-    const allLines: string[] = [];
+  // 이미지 객체만 바뀐 경우 항목 sig 로는 알 수 없으므로 전체 다시 그리기
+  useEffect(() => {
+    if (imagesVersion > 0) redrawCanvas(true);
+  }, [imagesVersion]);
 
-    paragraphs.forEach((paragraph) => {
-      if (paragraph === '') {
-        allLines.push('');
-        return;
-      }
+  // v4.0: 새 이미지/페이지는 화면 맞춤으로, 보기 영역 너비 변화 추적
+  useEffect(() => {
+    setManualViewport(null);
+    const el = viewportElRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+    observer.observe(el);
+    setViewWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, [image]);
 
-      // 각 문단을 maxWidth에 맞게 래핑
-      const words = paragraph.split('');
-      let currentLine = '';
-
-      words.forEach((char) => {
-        const testLine = currentLine + char;
-        const metrics = ctx.measureText(testLine);
-        if (metrics.width > maxWidth && currentLine !== '') {
-          allLines.push(currentLine);
-          currentLine = char;
-        } else {
-          currentLine = testLine;
-        }
-      });
+  // v4.0: 휠(트랙패드 핀치 포함)로 커서 위치 기준 확대/축소 - 페이지 스크롤을 막으려면 passive 가 아니어야 함
+  useEffect(() => {
+    const el = viewportElRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const { viewport: vp } = viewStateRef.current;
+      zoomTo(vp.zoom * Math.pow(WHEEL_ZOOM_STEP, -e.deltaY), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [image]);
+
+  useEffect(() => {
+    drawMinimap();
+  }, [viewport.zoom, viewport.x, viewport.y, isZoomed]);
+
+  const getGradientSpec = (sel: SelectionArea) => selectionGradientSpec(sel, originalImageData);
+
+  // v4.0: 장면 렌더러에 넘길 자원 - 배경 지우기는 base(기본: 원본) 기준
+  // base 가 현재 페이지가 아니면 (PDF 내보내기 / 일괄 처리) 인페인팅 캐시를 쓰지 않는다
+  const getSceneAssets = (base: ImageData | null = originalImageData): SceneAssets =>
+    createSceneAssets(
+      base,
+      stickerImagesRef.current,
+      replacementImagesRef.current,
+      base === originalImageData ? inpaintCacheRef.current : undefined
+    );
 
-      if (currentLine) allLines.push(currentLine);
+  // 현재 상태를 그리기 순서대로 CanvasItem 목록으로 변환 (레이어 위에 후보 / 새 영역 / 핸들)
+  const buildCanvasItems = (ctx: CanvasRenderingContext2D): CanvasItem[] => {
+    const items = buildLayerItems(ctx, editState, getSceneAssets(), {
+      previewEnabled,
+      guides: true,
+      boundsCache: selectionBoundsCacheRef.current,
     });
 
-    return allLines;
-  };
+    // v3.6: 스캔 후보 (수락 대기) - 항상 레이어 위에 표시
+    scanCandidates.forEach((cand, idx) => {
+      items.push({
+        key: `cand-${cand.id}`,
+        sig: JSON.stringify([cand.x, cand.y, cand.w, cand.h, idx]),
+        bounds: padRect({ x: cand.x, y: cand.y, w: cand.w, h: cand.h }, 20),
+        draw: (ctx) => {
+          ctx.strokeStyle = '#0ea5e9';
+          ctx.lineWidth = 2;
+          ctx.setLineDash([4, 4]);
+          ctx.strokeRect(cand.x, cand.y, cand.w, cand.h);
+          ctx.setLineDash([]);
+          ctx.fillStyle = 'rgba(14,165,233,0.08)';
+          ctx.fillRect(cand.x, cand.y, cand.w, cand.h);
+          ctx.fillStyle = '#0ea5e9';
+          ctx.font = 'bold 12px sans-serif';
+          ctx.fillText(`후보 ${idx + 1}`, cand.x + 2, cand.y - 4);
+        },
+      });
+    });
 
-  const redrawCanvas = () => {
-    const canvas = canvasRef.current;
-    if (!canvas || !image) return;
+    // 드래그 중인 새 영역
+    const draft = draftRectRef.current;
+    if (draft) {
+      items.push({
+        key: 'draft',
+        sig: JSON.stringify(draft),
+        bounds: padRect(draft, 4),
+        draw: (ctx) => {
+          ctx.strokeStyle = draft.type === 'text' ? '#ef4444' : draft.type === 'image-ai' ? '#a855f7' : '#f59e0b';
+          ctx.lineWidth = 3;
+          ctx.setLineDash([8, 4]);
+          ctx.strokeRect(draft.x, draft.y, draft.w, draft.h);
+        },
+      });
+    }
 
-    const ctx = canvas.getContext('2d')!;
-    const img = new Image();
-    img.onload = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, 0, 0);
-
-      selections.forEach((sel) => {
-        if (sel.type === 'image-replace' && sel.replacementImage) {
-          const replImg = replacementImagesRef.current.get(sel.id);
-          if (replImg && replImg.complete) {
+    // v4.0: 선택된 레이어의 변형 핸들 - 맨 위 (여러 개면 항목별 테두리도)
+    const selected = getSelectedFrame();
+    if (selected) {
+      const unit = getCanvasUnit();
+      items.push({
+        key: 'handles',
+        sig: JSON.stringify([selected.frame, selected.options, selected.memberFrames, unit]),
+        bounds: transformFrameBounds(selected.frame, unit),
+        draw: (ctx) => {
+          ctx.strokeStyle = '#60a5fa';
+          ctx.lineWidth = unit;
+          selected.memberFrames.forEach((frame) => {
             ctx.save();
-            ctx.translate(sel.x + sel.w / 2, sel.y + sel.h / 2);
-            if (sel.imageRotation) ctx.rotate((sel.imageRotation * Math.PI) / 180);
-            const scaleX = sel.imageFlipX ? -1 : 1;
-            const scaleY = sel.imageFlipY ? -1 : 1;
-            ctx.scale(scaleX, scaleY);
-            ctx.drawImage(replImg, -sel.w / 2, -sel.h / 2, sel.w, sel.h);
+            ctx.translate(frame.cx, frame.cy);
+            ctx.rotate((frame.rotation * Math.PI) / 180);
+            ctx.strokeRect(-frame.w / 2, -frame.h / 2, frame.w, frame.h);
             ctx.restore();
-          }
-        }
-
-        // v3.5: 실시간 텍스트 미리보기 (회전 지원)
-        if (sel.type === 'text' && previewEnabled && replacements[sel.id]) {
-          ctx.save();
-          
-          // 중심점으로 이동 후 회전
-          const centerX = sel.x + sel.w / 2;
-          const centerY = sel.y + sel.h / 2;
-          ctx.translate(centerX, centerY);
-          if (sel.textRotation) {
-            ctx.rotate((sel.textRotation * Math.PI) / 180);
-          }
-          
-          // 배경 채우기 (중심 기준)
-          ctx.fillStyle = sel.textBgColor || '#ffffff';
-          ctx.fillRect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
-          
-          // 텍스트 그리기
-          const text = replacements[sel.id];
-          ctx.fillStyle = sel.textColor || '#000000';
-          ctx.font = `${sel.fontWeight || 'normal'} ${sel.fontSize || 32}px ${sel.fontFamily || 'Noto Sans KR'}`;
-          ctx.textBaseline = 'middle';
-          ctx.textAlign = sel.textAlign || 'center';
-          
-          // v3.5.1: 패딩 최소화 (sel.w - 4)
-          const lines = wrapTextWithNewlines(ctx, text, sel.w - 4);
-          const lineHeight = (sel.fontSize || 32) * 1.2;
-          const totalHeight = lines.length * lineHeight;
-          let startY = -totalHeight / 2 + lineHeight / 2;
-          
-          lines.forEach((line) => {
-            const textX =
-              sel.textAlign === 'left'
-                ? -sel.w / 2 + 2
-                : sel.textAlign === 'right'
-                ? sel.w / 2 - 2
-                : 0;
-            ctx.fillText(line, textX, startY);
-            startY += lineHeight;
           });
-          
-          ctx.restore();
-        }
+          drawTransformHandles(ctx, selected.frame, unit, selected.options);
+        },
+      });
+    }
 
-        // v3.5.2: 선택 영역 경계선도 회전 적용
-        ctx.save();
-        const centerX = sel.x + sel.w / 2;
-        const centerY = sel.y + sel.h / 2;
-        ctx.translate(centerX, centerY);
-        if (sel.type === 'text' && sel.textRotation) {
-          ctx.rotate((sel.textRotation * Math.PI) / 180);
-        }
+    const marquee = marqueeRef.current;
+    if (marquee) {
+      items.push({
+        key: 'marquee',
+        sig: JSON.stringify(marquee),
+        bounds: padRect(marquee, 4),
+        draw: (ctx) => {
+          ctx.fillStyle = 'rgba(37,99,235,0.08)';
+          ctx.fillRect(marquee.x, marquee.y, marquee.w, marquee.h);
+          ctx.strokeStyle = '#2563eb';
+          ctx.lineWidth = getCanvasUnit();
+          ctx.setLineDash([6, 4]);
+          ctx.strokeRect(marquee.x, marquee.y, marquee.w, marquee.h);
+        },
+      });
+    }
 
-        ctx.strokeStyle = sel.type === 'text' ? '#ef4444' : sel.type === 'image-ai' ? '#a855f7' : '#f59e0b';
-        ctx.lineWidth = 3;
-        ctx.setLineDash([8, 4]);
-        ctx.strokeRect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
-        ctx.setLineDash([]);
+    return items;
+  };
 
-        // 미리보기가 꺼져있거나 텍스트가 없을 때만 반투명 배경
-        if (!previewEnabled || !replacements[sel.id] || sel.type !== 'text') {
-          ctx.fillStyle = sel.type === 'text' ? 'rgba(239,68,68,0.1)' : sel.type === 'image-ai' ? 'rgba(168,85,247,0.1)' : 'rgba(245,158,11,0.1)';
-          ctx.fillRect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
-        }
+  const redrawCanvas = (full = false) => {
+    const canvas = canvasRef.current;
+    const base = originalCanvasRef.current;
+    if (!canvas || !base || !image) return;
 
-        // ID 표시 (회전된 영역의 좌상단)
-        ctx.fillStyle = sel.type === 'text' ? '#ef4444' : sel.type === 'image-ai' ? '#a855f7' : '#f59e0b';
-        ctx.font = 'bold 14px sans-serif';
-        ctx.fillText(`#${sel.id}`, -sel.w / 2 + 4, -sel.h / 2 + 18);
-        ctx.restore();
-      });
+    const ctx = canvas.getContext('2d')!;
+    const painted = paintCanvasItems(ctx, base, buildCanvasItems(ctx), full ? null : lastFrameRef.current);
+    if (!painted) return;
+    lastFrameRef.current = painted.frame;
+    drawMinimap();
+  };
 
-      stickers.forEach((stk) => {
-        const img = stickerImagesRef.current.get(stk.id);
-        if (!img || !img.complete) return;
+  // =====================================================
+  // 🔍 v4.0: 보기 (확대 / 이동 / 미니맵)
+  // =====================================================
+  // 모든 마우스 좌표 변환은 이 한 곳을 거침 (보기 영역 기준 → 캔버스 px)
+  const toCanvasPoint = (e: { clientX: number; clientY: number }) => {
+    const rect = viewportElRef.current!.getBoundingClientRect();
+    return screenToCanvas(viewport, e.clientX - rect.left, e.clientY - rect.top);
+  };
 
-        ctx.save();
-        ctx.globalAlpha = stk.opacity;
-        ctx.translate(stk.x, stk.y);
-        ctx.rotate((stk.rotation * Math.PI) / 180);
-        const scaleX = stk.flipX ? -1 : 1;
-        ctx.scale(scaleX * stk.scale, stk.scale);
-        ctx.drawImage(img, -stk.w / 2, -stk.h / 2, stk.w, stk.h);
-        ctx.restore();
-      });
+  // 화면 (px, py) 기준 확대/축소 - 기본은 보기 영역 가운데. 맞춤 배율 이하면 맞춤으로 복귀
+  const zoomTo = (zoom: number, px?: number, py?: number) => {
+    const { viewport: vp, fitView: fit, viewWidth: width, viewHeight: height } = viewStateRef.current;
+    const next = Math.min(MAX_ZOOM, Math.max(fit.zoom, zoom));
+    if (next <= fit.zoom + 1e-6) {
+      setManualViewport(null);
+      return;
+    }
+    setManualViewport(zoomViewportAt(vp, next, px ?? width / 2, py ?? height / 2));
+  };
 
-      customTexts.forEach((txt) => {
-        ctx.save();
-        ctx.globalAlpha = txt.opacity;
-        ctx.translate(txt.x, txt.y);
-        ctx.rotate((txt.rotation * Math.PI) / 180);
-        ctx.font = `${txt.fontWeight} ${txt.fontSize * txt.scale}px ${txt.fontFamily || 'Noto Sans KR'}`;
-        
-        // v3.5: 줄바꿈 지원
-        let currentX = 0;
-        let currentY = 0;
-        const lineHeight = txt.fontSize * txt.scale * 1.2;
-        
-        txt.segments.forEach((seg) => {
-          if (seg.newLine) {
-            currentX = 0;
-            currentY += lineHeight;
-          }
-          ctx.fillStyle = seg.color;
-          ctx.fillText(seg.text, currentX, currentY);
-          currentX += ctx.measureText(seg.text).width;
-        });
-        ctx.restore();
-      });
+  const drawMinimap = () => {
+    const mini = minimapRef.current;
+    const canvas = canvasRef.current;
+    if (!mini || !canvas || !canvas.width) return;
+
+    const scale = MINIMAP_WIDTH / canvas.width;
+    mini.width = MINIMAP_WIDTH;
+    mini.height = Math.max(1, Math.round(canvas.height * scale));
+    const ctx = mini.getContext('2d')!;
+    ctx.drawImage(canvas, 0, 0, mini.width, mini.height);
+
+    // 지금 보이는 영역
+    const { viewport: vp, viewWidth: width, viewHeight: height } = viewStateRef.current;
+    const topLeft = screenToCanvas(vp, 0, 0);
+    const rect = {
+      x: topLeft.x * scale,
+      y: topLeft.y * scale,
+      w: (width / vp.zoom) * scale,
+      h: (height / vp.zoom) * scale,
     };
-    img.src = image;
+    ctx.fillStyle = 'rgba(37,99,235,0.15)';
+    ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+    ctx.strokeStyle = '#2563eb';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(rect.x, rect.y, rect.w, rect.h);
   };
 
-  const onMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const scaleX = canvasRef.current.width / rect.width;
-    const scaleY = canvasRef.current.height / rect.height;
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
+  // 미니맵에서 누른 곳이 보기 영역 가운데로 오도록 이동
+  const onMinimapPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.type === 'pointerdown') {
+      minimapDragRef.current = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    if (!minimapDragRef.current || !minimapRef.current || !canvasRef.current) return;
+    const rect = minimapRef.current.getBoundingClientRect();
+    const scale = MINIMAP_WIDTH / canvasRef.current.width;
+    const cx = (e.clientX - rect.left) / scale;
+    const cy = (e.clientY - rect.top) / scale;
+    const { viewport: vp, viewWidth: width, viewHeight: height } = viewStateRef.current;
+    setManualViewport({ zoom: vp.zoom, x: width / 2 - cx * vp.zoom, y: height / 2 - cy * vp.zoom });
+  };
 
-    if (eyedropperMode.active) {
-      pickColor(x, y);
-      return;
+  // =====================================================
+  // 🎛️ v4.0: 변형 핸들
+  // =====================================================
+  // 화면 1px 에 해당하는 캔버스 픽셀 수
+  const getCanvasUnit = () => 1 / viewport.zoom;
+
+  const getLayerFrame = (kind: LayerKind, id: number): TransformFrame | null => {
+    if (kind === 'selection') {
+      const sel = selections.find((s) => s.id === id);
+      if (!sel) return null;
+      const rotation = sel.type === 'text' ? sel.textRotation || 0 : 0;
+      return { cx: sel.x + sel.w / 2, cy: sel.y + sel.h / 2, w: sel.w, h: sel.h, rotation };
+    }
+    if (kind === 'sticker') {
+      const stk = stickers.find((s) => s.id === id);
+      if (!stk) return null;
+      return { cx: stk.x, cy: stk.y, w: stk.w * stk.scale, h: stk.h * stk.scale, rotation: stk.rotation };
+    }
+    const txt = customTexts.find((t) => t.id === id);
+    if (!txt || !canvasRef.current) return null;
+    const box = measureCustomText(canvasRef.current.getContext('2d')!, txt);
+    const origin = { cx: txt.x, cy: txt.y, w: 0, h: 0, rotation: txt.rotation };
+    const center = fromFrameLocal(origin, (box.left + box.right) / 2, (box.top + box.bottom) / 2);
+    return {
+      cx: center.x,
+      cy: center.y,
+      w: Math.max(1, box.right - box.left),
+      h: Math.max(1, box.bottom - box.top),
+      rotation: txt.rotation,
+    };
+  };
+
+  // 선택된 레이어가 보이고 잠기지 않았을 때만 핸들 표시
+  // v4.0: 여러 개면 전체를 감싸는 상자에 회전 손잡이만 (layer = null)
+  const getSelectedFrame = () => {
+    const items = getEditableSelections();
+    if (items.length === 0) return null;
+
+    if (items.length > 1) {
+      const memberFrames = items
+        .map((ref) => getLayerFrame(ref.type, ref.id))
+        .filter((frame): frame is TransformFrame => !!frame);
+      if (memberFrames.length === 0) return null;
+      const box = unionRects(memberFrames.map(frameBounds));
+      const frame = { cx: box.x + box.w / 2, cy: box.y + box.h / 2, w: box.w, h: box.h, rotation: 0 };
+      const options: HandleOptions = { resize: false, edges: false, rotate: true };
+      return { layer: null, frame, options, memberFrames };
+    }
+
+    const layer = orderedLayers.find((l) => isLayerRef(items[0], l))!;
+    const frame = getLayerFrame(layer.kind, layer.id);
+    if (!frame) return null;
+    const options: HandleOptions = {
+      resize: true,
+      edges: layer.kind !== 'text',
+      rotate: layer.kind !== 'selection' || selections.find((s) => s.id === layer.id)?.type === 'text',
+    };
+    return { layer, frame, options, memberFrames: [] as TransformFrame[] };
+  };
+
+  // 드래그 시작 시점의 상자를 기준으로 계산하도록 기록
+  const createTransformDrag = (kind: LayerKind, id: number, frame: TransformFrame, handle: TransformHandle): TransformDrag => {
+    const txt = kind === 'text' ? customTexts.find((t) => t.id === id) : undefined;
+    const anchor = txt ? toFrameLocal(frame, txt.x, txt.y) : { x: 0, y: 0 };
+    return { handle, kind, id, frame, offsetX: -anchor.x, offsetY: -anchor.y, scale: txt ? txt.scale : 1 };
+  };
+
+  const applyTransform = (drag: TransformDrag, frame: TransformFrame) => {
+    if (drag.kind === 'selection') {
+      setSelections((prev) =>
+        prev.map((s) =>
+          s.id === drag.id
+            ? {
+                ...s,
+                x: Math.round(frame.cx - frame.w / 2),
+                y: Math.round(frame.cy - frame.h / 2),
+                w: Math.round(frame.w),
+                h: Math.round(frame.h),
+                ...(s.type === 'text' ? { textRotation: frame.rotation } : {}),
+              }
+            : s
+        )
+      );
+    } else if (drag.kind === 'sticker') {
+      setStickers((prev) =>
+        prev.map((s) =>
+          s.id === drag.id
+            ? { ...s, x: frame.cx, y: frame.cy, w: frame.w / s.scale, h: frame.h / s.scale, rotation: frame.rotation }
+            : s
+        )
+      );
+    } else {
+      // 글씨는 배율로 크기 조절 - 기준점을 새 상자에 맞춰 다시 계산
+      const ratio = frame.w / drag.frame.w;
+      const anchor = fromFrameLocal(frame, -drag.offsetX * ratio, -drag.offsetY * ratio);
+      setCustomTexts((prev) =>
+        prev.map((t) =>
+          t.id === drag.id
+            ? { ...t, x: anchor.x, y: anchor.y, scale: drag.scale * ratio, rotation: frame.rotation }
+            : t
+        )
+      );
     }
+  };
+
+  // 드래그 / 방향키 이동 공용
+  const moveLayerBy = (target: { id: number; type: LayerKind }, dx: number, dy: number) => {
+    if (target.type === 'sticker') {
+      setStickers((prev) => prev.map((s) => (s.id === target.id ? { ...s, x: s.x + dx, y: s.y + dy } : s)));
+    } else if (target.type === 'text') {
+      setCustomTexts((prev) => prev.map((t) => (t.id === target.id ? { ...t, x: t.x + dx, y: t.y + dy } : t)));
+    } else {
+      // v3.5.3: 선택 영역 드래그 이동
+      setSelections((prev) => prev.map((s) => (s.id === target.id ? { ...s, x: s.x + dx, y: s.y + dy } : s)));
+    }
+  };
 
-    let clickedSticker: Sticker | null = null;
-    for (let i = stickers.length - 1; i >= 0; i--) {
-      const stk = stickers[i];
+  // v4.0: 위 레이어부터 검사, 숨김/잠긴 레이어는 건너뜀. slop = 판정 영역을 넓힐 캔버스 px (터치)
+  const hitTestLayers = (x: number, y: number, slop = 0): Layer | undefined => {
+    const hitStickerLayer = (stk: Sticker) => {
       const dx = x - stk.x;
       const dy = y - stk.y;
       const rad = (stk.rotation * Math.PI) / 180;
@@ -633,26 +3884,14 @@ function App() {
       const sin = Math.sin(-rad);
       const rx = dx * cos - dy * sin;
       const ry = dx * sin + dy * cos;
-      const scaleX = stk.flipX ? -1 : 1;
-      const halfW = (stk.w * stk.scale * scaleX) / 2;
+      const halfW = Math.abs(stk.w * stk.scale) / 2;
       const halfH = (stk.h * stk.scale) / 2;
-      if (rx >= -halfW && rx <= halfW && ry >= -halfH && ry <= halfH) {
-        clickedSticker = stk;
-        break;
-      }
-    }
-
-    let clickedText: CustomText | null = null;
-    for (let i = customTexts.length - 1; i >= 0; i--) {
-      const txt = customTexts[i];
-      const ctx = canvasRef.current.getContext('2d')!;
-      ctx.save();
-      ctx.font = `${txt.fontWeight} ${txt.fontSize * txt.scale}px ${txt.fontFamily || 'Noto Sans KR'}`;
-      const fullText = txt.segments.map(s => s.text).join('');
-      const width = ctx.measureText(fullText).width;
-      const height = txt.fontSize * txt.scale;
-      ctx.restore();
+      return rx >= -halfW - slop && rx <= halfW + slop && ry >= -halfH - slop && ry <= halfH + slop;
+    };
 
+    const hitTextLayer = (txt: CustomText) => {
+      // v4.0: 여러 줄 글씨도 변형 핸들과 같은 상자로 검사
+      const box = measureCustomText(canvasRef.current!.getContext('2d')!, txt);
       const dx = x - txt.x;
       const dy = y - txt.y;
       const rad = (txt.rotation * Math.PI) / 180;
@@ -660,21 +3899,16 @@ function App() {
       const sin = Math.sin(-rad);
       const rx = dx * cos - dy * sin;
       const ry = dx * sin + dy * cos;
-      if (rx >= 0 && rx <= width && ry >= -height * 0.8 && ry <= height * 0.2) {
-        clickedText = txt;
-        break;
-      }
-    }
+      return rx >= box.left - slop && rx <= box.right + slop && ry >= box.top - slop && ry <= box.bottom + slop;
+    };
 
-    let clickedSelection: SelectionArea | null = null;
-    for (let i = selections.length - 1; i >= 0; i--) {
-      const sel = selections[i];
+    const hitSelectionLayer = (sel: SelectionArea) => {
       // v3.5.3: 회전된 영역 클릭 감지
       const centerX = sel.x + sel.w / 2;
       const centerY = sel.y + sel.h / 2;
       const dx = x - centerX;
       const dy = y - centerY;
-      
+
       // 텍스트 영역이고 회전이 있으면 역회전 적용
       const rotation = (sel.type === 'text' && sel.textRotation) ? sel.textRotation : 0;
       const rad = (-rotation * Math.PI) / 180;
@@ -682,25 +3916,140 @@ function App() {
       const sin = Math.sin(rad);
       const rx = dx * cos - dy * sin;
       const ry = dx * sin + dy * cos;
-      
-      if (rx >= -sel.w / 2 && rx <= sel.w / 2 && ry >= -sel.h / 2 && ry <= sel.h / 2) {
-        clickedSelection = sel;
-        break;
+      return rx >= -sel.w / 2 - slop && rx <= sel.w / 2 + slop && ry >= -sel.h / 2 - slop && ry <= sel.h / 2 + slop;
+    };
+
+    return [...orderedLayers].reverse().find((layer) => {
+      if (layer.hidden || layer.locked) return false;
+      if (layer.kind === 'sticker') return hitStickerLayer(stickers.find((s) => s.id === layer.id)!);
+      if (layer.kind === 'text') return hitTextLayer(customTexts.find((t) => t.id === layer.id)!);
+      return hitSelectionLayer(selections.find((s) => s.id === layer.id)!);
+    });
+  };
+
+  // =====================================================
+  // 👆 v4.0: 포인터 입력 (마우스 / 터치 / 펜)
+  // =====================================================
+  // 보기 영역 기준 화면 좌표
+  const toViewPoint = (point: ClientPoint): ClientPoint => {
+    const rect = viewportElRef.current!.getBoundingClientRect();
+    return { x: point.x - rect.left, y: point.y - rect.top };
+  };
+
+  const clearLongPress = () => {
+    if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  // 길게 누르는 도중 언마운트되면 타이머가 남지 않도록
+  useEffect(() => clearLongPress, []);
+
+  // 두 번째 손가락이 닿거나 메뉴가 열리면 진행 중이던 한 손가락 동작을 멈춤
+  const cancelPointerGesture = () => {
+    clearLongPress();
+    panRef.current = null;
+    transformRef.current = null;
+    groupTransformRef.current = null;
+    marqueeRef.current = null;
+    isMoving.current = false;
+    endHistoryGroup();
+    if (isDrawing.current) {
+      isDrawing.current = false;
+      draftRectRef.current = null;
+      redrawCanvas();
+    }
+  };
+
+  // 길게 누르기 / 오른쪽 클릭 - 그 위치의 항목에 대한 메뉴
+  const openContextMenu = (client: ClientPoint, slop: number) => {
+    const { x, y } = toCanvasPoint({ clientX: client.x, clientY: client.y });
+    const layer = hitTestLayers(x, y, slop);
+    cancelPointerGesture();
+    if (!layer) return;
+    setSelectedId({ id: layer.id, type: layer.kind });
+    setContextMenu({ x: client.x, y: client.y, layer });
+  };
+
+  const onCanvasContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    openContextMenu({ x: e.clientX, y: e.clientY }, 0);
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canvasRef.current || e.button === 2) return; // 오른쪽 버튼은 메뉴 (onCanvasContextMenu)
+    const touch = e.pointerType === 'touch';
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setContextMenu(null);
+
+    // v4.0: 두 손가락 - 하던 동작을 멈추고 확대/이동
+    if (touch && activePointersRef.current.size === 2) {
+      cancelPointerGesture();
+      const [a, b] = [...activePointersRef.current.values()];
+      pinchRef.current = { dist: Math.max(1, pointerDistance(a, b)), mid: toViewPoint(pointerMidpoint(a, b)), vp: viewport };
+      return;
+    }
+    if (activePointersRef.current.size > 1 || pinchRef.current) return;
+
+    if (e.pointerType !== 'mouse') {
+      const start = { x: e.clientX, y: e.clientY };
+      const slop = touch ? TOUCH_HIT_SLOP * getCanvasUnit() : 0;
+      clearLongPress();
+      longPressRef.current = { start, timer: window.setTimeout(() => openContextMenu(start, slop), LONG_PRESS_MS) };
+    }
+
+    // v4.0: Space+드래그 또는 가운데 버튼 드래그로 보기 이동
+    if (spaceHeld || e.button === 1) {
+      e.preventDefault();
+      panRef.current = { sx: e.clientX, sy: e.clientY, vp: viewport };
+      return;
+    }
+
+    const { x, y } = toCanvasPoint(e);
+
+    if (eyedropperMode.active) {
+      pickColor(x, y);
+      return;
+    }
+
+    // v4.0: 선택된 레이어의 변형 핸들이 가장 먼저
+    const selected = getSelectedFrame();
+    const handleSize = touch ? TOUCH_HANDLE_SIZE * getCanvasUnit() : undefined;
+    const handle = selected && hitTransformHandle(selected.frame, x, y, getCanvasUnit(), selected.options, handleSize);
+    if (selected && handle) {
+      if (selected.layer) {
+        transformRef.current = createTransformDrag(selected.layer.kind, selected.layer.id, selected.frame, handle);
+      } else {
+        groupTransformRef.current = {
+          frame: selected.frame,
+          drags: getEditableSelections().flatMap((ref) => {
+            const frame = getLayerFrame(ref.type, ref.id);
+            return frame ? [createTransformDrag(ref.type, ref.id, frame, handle)] : [];
+          }),
+        };
       }
+      beginHistoryGroup();
+      return;
     }
 
-    if (clickedSticker) {
-      setSelectedId({ id: clickedSticker.id, type: 'sticker' });
-      isMoving.current = true;
-      startPos.current = { x, y };
-    } else if (clickedText) {
-      setSelectedId({ id: clickedText.id, type: 'text' });
+    const clicked = hitTestLayers(x, y, touch ? TOUCH_HIT_SLOP * getCanvasUnit() : 0);
+    if (clicked) {
+      const ref = { id: clicked.id, type: clicked.kind };
+      const alreadySelected = selectedItems.some((item) => isLayerRef(item, clicked));
+      // v4.0: Shift+클릭은 선택에 추가/빼기 (그룹은 통째로)
+      if (e.shiftKey) {
+        toggleSelectedItem(ref);
+        if (alreadySelected) return;
+      } else if (!alreadySelected) {
+        setSelectedId(ref);
+      }
+      // v3.5.3: 선택 영역도 드래그로 이동 가능 (v4.0: 선택된 항목 전체)
       isMoving.current = true;
       startPos.current = { x, y };
-    } else if (clickedSelection) {
-      // v3.5.3: 선택 영역도 드래그로 이동 가능
-      setSelectedId({ id: clickedSelection.id, type: 'selection' });
-      isMoving.current = true;
+      beginHistoryGroup();
+    } else if (e.shiftKey) {
+      // v4.0: Shift+드래그 빈 곳 = 범위 선택
+      marqueeRef.current = { x, y, w: 0, h: 0 };
       startPos.current = { x, y };
     } else {
       isDrawing.current = true;
@@ -708,87 +4057,177 @@ function App() {
     }
   };
 
-  const onMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const scaleX = canvasRef.current.width / rect.width;
-    const scaleY = canvasRef.current.height / rect.height;
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
+    const pointers = activePointersRef.current;
+    if (pointers.has(e.pointerId)) pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
 
-    if (isMoving.current && selectedId) {
-      const dx = x - startPos.current.x;
-      const dy = y - startPos.current.y;
+    const press = longPressRef.current;
+    if (press && pointerDistance(press.start, { x: e.clientX, y: e.clientY }) > LONG_PRESS_MOVE_TOLERANCE) {
+      clearLongPress();
+    }
 
-      if (selectedId.type === 'sticker') {
-        setStickers((prev) =>
-          prev.map((s) => (s.id === selectedId.id ? { ...s, x: s.x + dx, y: s.y + dy } : s))
-        );
-      } else if (selectedId.type === 'text') {
-        setCustomTexts((prev) =>
-          prev.map((t) => (t.id === selectedId.id ? { ...t, x: t.x + dx, y: t.y + dy } : t))
-        );
-      } else if (selectedId.type === 'selection') {
-        // v3.5.3: 선택 영역 드래그 이동
-        setSelections((prev) =>
-          prev.map((s) => (s.id === selectedId.id ? { ...s, x: s.x + dx, y: s.y + dy } : s))
-        );
-      }
+    // v4.0: 두 손가락 벌리기/오므리기 = 확대/축소, 함께 움직이기 = 이동
+    const pinch = pinchRef.current;
+    if (pinch) {
+      if (pointers.size < 2) return;
+      const [a, b] = [...pointers.values()];
+      const mid = toViewPoint(pointerMidpoint(a, b));
+      const fitZoom = viewStateRef.current.fitView.zoom;
+      const zoom = Math.min(MAX_ZOOM, Math.max(fitZoom, (pinch.vp.zoom * pointerDistance(a, b)) / pinch.dist));
+      const zoomed = zoomViewportAt(pinch.vp, zoom, pinch.mid.x, pinch.mid.y);
+      setManualViewport({ zoom, x: zoomed.x + mid.x - pinch.mid.x, y: zoomed.y + mid.y - pinch.mid.y });
+      return;
+    }
+
+    const pan = panRef.current;
+    if (pan) {
+      setManualViewport({ ...pan.vp, x: pan.vp.x + e.clientX - pan.sx, y: pan.vp.y + e.clientY - pan.sy });
+      return;
+    }
+
+    const { x, y } = toCanvasPoint(e);
+
+    // v4.0: 여러 개를 전체 상자 중심으로 함께 회전
+    const groupDrag = groupTransformRef.current;
+    if (groupDrag) {
+      const { rotation } = rotateFrame(groupDrag.frame, x, y, e.shiftKey);
+      const pivot = { ...groupDrag.frame, rotation };
+      groupDrag.drags.forEach((item) => {
+        const center = fromFrameLocal(pivot, item.frame.cx - pivot.cx, item.frame.cy - pivot.cy);
+        const itemRotation = ((item.frame.rotation + rotation + 540) % 360) - 180;
+        applyTransform(item, { ...item.frame, cx: center.x, cy: center.y, rotation: itemRotation });
+      });
+      return;
+    }
 
+    if (marqueeRef.current) {
+      marqueeRef.current = {
+        x: Math.min(startPos.current.x, x),
+        y: Math.min(startPos.current.y, y),
+        w: Math.abs(x - startPos.current.x),
+        h: Math.abs(y - startPos.current.y),
+      };
+      redrawCanvas();
+      return;
+    }
+
+    const drag = transformRef.current;
+    if (drag) {
+      // Shift: 비율 유지 / 회전은 15° 단위 (글씨는 항상 비율 유지)
+      const frame =
+        drag.handle === 'rotate'
+          ? rotateFrame(drag.frame, x, y, e.shiftKey)
+          : resizeFrame(drag.frame, drag.handle, x, y, e.shiftKey || drag.kind === 'text');
+      applyTransform(drag, frame);
+      return;
+    }
+
+    if (isMoving.current) {
+      const dx = x - startPos.current.x;
+      const dy = y - startPos.current.y;
+      getEditableSelections().forEach((ref) => moveLayerBy(ref, dx, dy));
       startPos.current = { x, y };
       return;
     }
 
+    if (!isDrawing.current) {
+      // v4.0: 핸들 위에서는 방향에 맞는 커서
+      const selected = getSelectedFrame();
+      const handle = selected && hitTransformHandle(selected.frame, x, y, getCanvasUnit(), selected.options);
+      const cursor = selected && handle ? transformCursor(handle, selected.frame.rotation) : null;
+      if (cursor !== hoverCursor) setHoverCursor(cursor);
+    }
+
     if (isDrawing.current) {
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d')!;
+      // v4.0: 새 영역도 프레임 항목으로 그려 부분 다시 그리기에 포함
+      draftRectRef.current = {
+        x: Math.min(startPos.current.x, x),
+        y: Math.min(startPos.current.y, y),
+        w: Math.abs(x - startPos.current.x),
+        h: Math.abs(y - startPos.current.y),
+        type: drawMode,
+      };
       redrawCanvas();
+    }
+  };
 
-      const startX = Math.min(startPos.current.x, x);
-      const startY = Math.min(startPos.current.y, y);
-      const width = Math.abs(x - startPos.current.x);
-      const height = Math.abs(y - startPos.current.y);
+  const onPointerUp = async (e: React.PointerEvent<HTMLCanvasElement>) => {
+    activePointersRef.current.delete(e.pointerId);
+    clearLongPress();
+
+    // 두 손가락 중 하나를 떼면 확대 종료, 남은 손가락으로는 새 동작을 시작하지 않음
+    if (pinchRef.current) {
+      if (activePointersRef.current.size === 0) pinchRef.current = null;
+      return;
+    }
 
-      ctx.strokeStyle = drawMode === 'text' ? '#ef4444' : drawMode === 'image-ai' ? '#a855f7' : '#f59e0b';
-      ctx.lineWidth = 3;
-      ctx.setLineDash([8, 4]);
-      ctx.strokeRect(startX, startY, width, height);
-      ctx.setLineDash([]);
+    if (panRef.current) {
+      panRef.current = null;
+      return;
+    }
+
+    // v4.0: 드래그 한 번의 이동 / 변형은 히스토리 한 단계
+    if (transformRef.current || groupTransformRef.current) {
+      transformRef.current = null;
+      groupTransformRef.current = null;
+      endHistoryGroup();
+      return;
+    }
+
+    // v4.0: 범위 안에 완전히 들어온 항목을 선택에 추가
+    const marquee = marqueeRef.current;
+    if (marquee) {
+      marqueeRef.current = null;
+      const inside = orderedLayers
+        .filter((layer) => !layer.hidden && !layer.locked)
+        .filter((layer) => {
+          const frame = getLayerFrame(layer.kind, layer.id);
+          return !!frame && rectContains(marquee, frameBounds(frame));
+        })
+        .map((layer) => ({ id: layer.id, type: layer.kind }));
+      const added = expandToGroups(inside).filter(
+        (ref) => !selectedItems.some((item) => item.id === ref.id && item.type === ref.type)
+      );
+      setSelectedItems([...selectedItems, ...added]);
+      redrawCanvas();
+      return;
     }
-  };
 
-  const onMouseUp = async (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (isMoving.current) {
       isMoving.current = false;
+      endHistoryGroup();
       return;
     }
 
     if (isDrawing.current) {
-      const rect = canvasRef.current!.getBoundingClientRect();
-      const scaleX = canvasRef.current!.width / rect.width;
-      const scaleY = canvasRef.current!.height / rect.height;
-      const x = (e.clientX - rect.left) * scaleX;
-      const y = (e.clientY - rect.top) * scaleY;
+      const { x, y } = toCanvasPoint(e);
 
       const startX = Math.min(startPos.current.x, x);
       const startY = Math.min(startPos.current.y, y);
       const width = Math.abs(x - startPos.current.x);
       const height = Math.abs(y - startPos.current.y);
 
-      if (width > 10 && height > 10 && selections.length < MAX_SELECTIONS) {
+      if (width > 10 && height > 10) {
         const newId = Date.now();
         
         // 🚀 즉시 분석 (1ms 이내!)
         let bgColor = '#ffffff';
+        let bgSpec: BackgroundSpec | undefined;
         let textColor = '#000000';
         let fontSize = 32;
+        let lineHeight: number | undefined;
+        let textOffsetY: number | undefined;
 
         if (autoAnalyzeEnabled) {
           if (drawMode === 'text') {
             const analysis = analyzeTextAreaFast(startX, startY, width, height);
             bgColor = analysis.bgColor;
+            bgSpec = analysis.bgSpec;
             textColor = analysis.textColor;
             fontSize = analysis.fontSize;
+            lineHeight = analysis.lineHeight;
+            textOffsetY = analysis.textOffsetY;
           } else if (drawMode === 'image-replace') {
             bgColor = detectSurroundingColor(startX, startY, width, height);
           }
@@ -803,17 +4242,26 @@ function App() {
           type: drawMode,
           textColor: textColor,
           textBgColor: bgColor,
+          bgSpec,
+          bgFillMode: bgSpec && bgSpec.kind !== 'solid' ? 'gradient' : undefined,
           fontSize: fontSize,
+          lineHeight,
+          textOffsetY,
           fontWeight: 'normal',
           textAlign: 'center',
           fontFamily: 'Noto Sans KR',
         };
 
         setSelections((prev) => [...prev, newSelection]);
-        addToHistory();
+
+        // v3.6: 원문을 읽어 교정 입력칸 채우기 (백그라운드)
+        if (drawMode === 'text' && ocrEnabled) {
+          ocrSelection(newSelection, false);
+        }
       }
 
       isDrawing.current = false;
+      draftRectRef.current = null;
       redrawCanvas();
     }
   };
@@ -846,7 +4294,8 @@ function App() {
       return next;
     });
     replacementImagesRef.current.delete(id);
-    addToHistory();
+    inpaintCacheRef.current.delete(id);
+    selectionBoundsCacheRef.current.delete(id);
   };
 
   const updateSelection = (id: number, updates: Partial<SelectionArea>) => {
@@ -859,11 +4308,249 @@ function App() {
     if (!sel || sel.type !== 'text') return;
 
     const analysis = analyzeTextAreaFast(sel.x, sel.y, sel.w, sel.h);
+    const isGradient = analysis.bgSpec.kind !== 'solid';
     updateSelection(id, {
       textColor: analysis.textColor,
       textBgColor: analysis.bgColor,
+      bgSpec: analysis.bgSpec,
+      bgFillMode: isGradient ? 'gradient' : sel.bgFillMode === 'gradient' ? 'flat' : sel.bgFillMode,
       fontSize: analysis.fontSize,
+      lineHeight: analysis.lineHeight,
+      textOffsetY: analysis.textOffsetY,
+    });
+  };
+
+  // v3.6: 선택 영역 원문 OCR
+  // overwrite=false 이면 이미 입력한 교정 텍스트는 건드리지 않음
+  const ocrSelection = async (sel: SelectionArea, overwrite: boolean) => {
+    if (!originalCanvasRef.current) return;
+
+    let recognized = '';
+    const pageNum = currentPageNum;
+    setOcrBusyIds((prev) => [...prev, sel.id]);
+    try {
+      const result = await recognizeRegion(originalCanvasRef.current, sel.x, sel.y, sel.w, sel.h);
+      // 읽는 동안 영역이 지워졌거나 다른 페이지로 넘어갔으면 결과를 버림
+      const live = liveTargetRef.current;
+      if (live.currentPageNum !== pageNum || !live.selections.some((s) => s.id === sel.id)) return;
+      recognized = result.text;
+      updateSelection(sel.id, {
+        ocrText: result.text,
+        ocrConfidence: result.confidence,
+        // 다시 읽은 글자로 덮어쓰면 부분 서식은 해제
+        ...(overwrite && result.text ? { segments: undefined } : {}),
+      });
+      if (result.text) {
+        setReplacements((prev) =>
+          overwrite || !prev[sel.id]
+            ? { ...prev, [sel.id]: result.text.slice(0, MAX_CHAR_LIMIT) }
+            : prev
+        );
+      }
+    } catch (error) {
+      console.error('OCR 실패:', error);
+      return;
+    } finally {
+      setOcrBusyIds((prev) => prev.filter((id) => id !== sel.id));
+    }
+
+    // v3.8: 새 영역이면 읽은 글자로 폰트도 추정
+    if (!overwrite && autoAnalyzeEnabled && recognized) {
+      matchSelectionFont(sel, recognized);
+    }
+  };
+
+  // v3.8: 원본 글자와 가장 비슷한 폰트/굵기 선택
+  const matchSelectionFont = async (sel: SelectionArea, text: string) => {
+    const textRgb = hexToRgb(sel.textColor || '#000000');
+    const bgRgb = hexToRgb(sel.textBgColor || '#ffffff');
+    if (!originalImageData || !textRgb || !bgRgb || !text) return;
+
+    setFontMatchBusyIds((prev) => [...prev, sel.id]);
+    try {
+      const match = await matchFont(originalImageData, sel.x, sel.y, sel.w, sel.h, textRgb, bgRgb, text);
+      if (match) updateSelection(sel.id, match);
+    } catch (error) {
+      console.error('폰트 추정 실패:', error);
+    } finally {
+      setFontMatchBusyIds((prev) => prev.filter((id) => id !== sel.id));
+    }
+  };
+
+  // OCR 박스 → 자동 분석이 적용된 text 선택 영역
+  const createSelectionFromBox = (
+    box: OcrBox,
+    id: number,
+    source: HTMLCanvasElement | null = originalCanvasRef.current
+  ): SelectionArea => {
+    const analysis = analyzeTextAreaFast(box.x, box.y, box.w, box.h, source);
+    return {
+      id,
+      x: box.x,
+      y: box.y,
+      w: box.w,
+      h: box.h,
+      type: 'text',
+      textColor: analysis.textColor,
+      textBgColor: analysis.bgColor,
+      bgSpec: analysis.bgSpec,
+      bgFillMode: analysis.bgSpec.kind !== 'solid' ? 'gradient' : undefined,
+      fontSize: box.fontSize,
+      lineHeight: analysis.lineHeight,
+      textOffsetY: analysis.textOffsetY,
+      fontWeight: 'normal',
+      textAlign: 'center',
+      fontFamily: 'Noto Sans KR',
+      ocrText: box.text,
+      ocrConfidence: box.confidence,
+    };
+  };
+
+  // v3.6: 페이지 전체 스캔 → 텍스트 영역 후보 제안
+  const scanPage = async () => {
+    if (!originalCanvasRef.current || !originalImageData) return;
+
+    try {
+      setIsProcessing(true);
+      setProcessStep('페이지 텍스트 인식 중...');
+
+      const boxes = await scanPageText(originalCanvasRef.current, scanLevel);
+      const baseId = Date.now();
+      const candidates = boxes.map((box, idx) => createSelectionFromBox(box, baseId + idx));
+
+      setScanCandidates(candidates);
+      setProcessStep(`후보 ${candidates.length}개 발견`);
+    } catch (error) {
+      console.error('페이지 스캔 실패:', error);
+      setProcessStep('오류 발생');
+    } finally {
+      setTimeout(() => {
+        setIsProcessing(false);
+        setProcessStep('');
+      }, 1000);
+    }
+  };
+
+  // texts: 후보별로 원문 대신 넣을 텍스트 (오타 교정 적용)
+  const acceptCandidates = (ids: number[], texts: { [key: number]: string } = {}) => {
+    const accepted = scanCandidates.filter((c) => ids.includes(c.id));
+    if (accepted.length === 0) return;
+
+    const acceptedIds = accepted.map((c) => c.id);
+    setSelections((prev) => [...prev, ...accepted]);
+    setReplacements((prev) => {
+      const next = { ...prev };
+      accepted.forEach((c) => {
+        next[c.id] = (texts[c.id] ?? c.ocrText ?? '').slice(0, MAX_CHAR_LIMIT);
+      });
+      return next;
     });
+    setScanCandidates((prev) => prev.filter((c) => !acceptedIds.includes(c.id)));
+    nameNextHistoryStep(`스캔 후보 ${accepted.length}개 추가`);
+
+    // v3.8: 받아들인 후보도 원문 글자로 폰트 추정 (하나씩 차례로)
+    if (autoAnalyzeEnabled) {
+      (async () => {
+        for (const c of accepted) {
+          if (c.ocrText) await matchSelectionFont(c, c.ocrText);
+        }
+      })();
+    }
+  };
+
+  const rejectCandidates = (ids: number[]) => {
+    setScanCandidates((prev) => prev.filter((c) => !ids.includes(c.id)));
+  };
+
+  // =====================================================
+  // 🗂️ v4.0: 레이어 패널 (순서 / 숨김 / 잠금 / 이름)
+  // =====================================================
+  const updateLayer = (layer: Layer, updates: Partial<Layer>) => {
+    nameNextHistoryStep(
+      'hidden' in updates
+        ? updates.hidden ? '레이어 숨기기' : '레이어 보이기'
+        : 'locked' in updates
+        ? updates.locked ? '레이어 잠금' : '레이어 잠금 해제'
+        : '레이어 이름 변경'
+    );
+    setLayers(orderedLayers.map((l) => (layerKey(l) === layerKey(layer) ? { ...l, ...updates } : l)));
+  };
+
+  // delta: +1 = 한 칸 위로, -1 = 한 칸 아래로
+  const moveLayer = (layer: Layer, delta: number) => {
+    const idx = orderedLayers.findIndex((l) => layerKey(l) === layerKey(layer));
+    const target = idx + delta;
+    if (idx === -1 || target < 0 || target >= orderedLayers.length) return;
+    const next = [...orderedLayers];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    nameNextHistoryStep('레이어 순서 변경');
+    setLayers(next);
+  };
+
+  const renameLayer = (layer: Layer) => {
+    const name = window.prompt('레이어 이름', layer.name || defaultLayerName(layer, editState));
+    if (name === null) return;
+    updateLayer(layer, { name: name.trim() || undefined });
+  };
+
+  // v4.0: 모두 바꾸기 - 한 번의 히스토리 단계로 기록
+  const replaceAllMatches = () => {
+    if (!findResult || findResult.matches.length === 0) return;
+    nameNextHistoryStep(`모두 바꾸기 (${findResult.matches.reduce((sum, m) => sum + m.count, 0)}곳)`);
+    setSelections(findResult.state.selections);
+    setReplacements(findResult.state.replacements);
+    setCustomTexts(findResult.state.customTexts);
+  };
+
+  const updateTypoDictionary = (entries: TypoEntry[]) => {
+    setTypoDictionary(entries);
+    localStorage.setItem(TYPO_DICTIONARY_KEY, JSON.stringify(entries));
+  };
+
+  const addTypoEntry = () => {
+    const wrong = newTypo.wrong.trim();
+    const right = newTypo.right.trim();
+    if (!wrong || !right) return;
+    updateTypoDictionary([...typoDictionary.filter((e) => e.wrong !== wrong), { wrong, right }]);
+    setNewTypo({ wrong: '', right: '' });
+  };
+
+  const applySpellFixToSelection = (id: number, issue: SpellIssue) => {
+    const sel = selections.find((s) => s.id === id);
+    if (sel?.segments && issue.suggestion !== null) {
+      // 부분 서식: 단어가 들어 있는 첫 구간만 고침
+      const idx = sel.segments.findIndex((seg) => seg.text.includes(issue.word));
+      if (idx === -1) return;
+      updateSelectionSegments(
+        id,
+        sel.segments.map((seg, i) => (i === idx ? { ...seg, text: seg.text.replace(issue.word, issue.suggestion!) } : seg))
+      );
+      return;
+    }
+    setReplacements((prev) => ({
+      ...prev,
+      [id]: applySpellFix(prev[id] ?? '', issue).slice(0, MAX_CHAR_LIMIT),
+    }));
+  };
+
+  // v3.8: 부분 서식 - 구간을 바꾸면 교정 텍스트도 함께 갱신
+  const updateSelectionSegments = (id: number, edited: TextSegment[]) => {
+    const segments = limitSegments(edited, MAX_CHAR_LIMIT);
+    updateSelection(id, { segments });
+    setReplacements((prev) => ({ ...prev, [id]: segmentsToText(segments) }));
+  };
+
+  const toggleRichText = (sel: SelectionArea) => {
+    if (sel.segments) {
+      updateSelection(sel.id, { segments: undefined });
+      return;
+    }
+    // 현재 텍스트를 줄마다 한 구간으로
+    const lines = (replacements[sel.id] || '').split('\n');
+    updateSelectionSegments(
+      sel.id,
+      lines.map((line, idx) => ({ text: line, color: sel.textColor || '#000000', newLine: idx > 0 }))
+    );
   };
 
   const handleReplacementUpload = (id: number, file: File) => {
@@ -902,7 +4589,6 @@ function App() {
         };
         stickerImagesRef.current.set(newSticker.id, img);
         setStickers((prev) => [...prev, newSticker]);
-        addToHistory();
       };
       img.src = dataUrl;
     };
@@ -912,7 +4598,6 @@ function App() {
   const removeSticker = (id: number) => {
     setStickers((prev) => prev.filter((s) => s.id !== id));
     stickerImagesRef.current.delete(id);
-    addToHistory();
   };
 
   const addCustomText = () => {
@@ -933,12 +4618,10 @@ function App() {
       fontFamily: 'Noto Sans KR',
     };
     setCustomTexts((prev) => [...prev, newText]);
-    addToHistory();
   };
 
   const removeCustomText = (id: number) => {
     setCustomTexts((prev) => prev.filter((t) => t.id !== id));
-    addToHistory();
   };
 
   const updateTextSegment = (textId: number, segIdx: number, field: 'text' | 'color', value: string) => {
@@ -952,46 +4635,418 @@ function App() {
     );
   };
 
-  const addToHistory = () => {
-    const newState: HistoryState = {
-      selections: [...selections],
-      replacements: { ...replacements },
-      stickers: [...stickers],
-      customTexts: [...customTexts],
-    };
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newState);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  // =====================================================
+  // 🕘 v4.0: 히스토리
+  // =====================================================
+  const beginHistoryGroup = (label?: string) => {
+    historyGroupRef.current = { label, entry: null };
+  };
+
+  const endHistoryGroup = () => {
+    historyGroupRef.current = null;
+  };
+
+  const nameNextHistoryStep = (label: string) => {
+    historyLabelRef.current = label;
+  };
+
+  // 편집 상태가 바뀔 때마다 직전 기록과 비교해 바뀐 항목만 한 단계로 기록
+  useEffect(() => {
+    const ops = diffEditStates(committedStateRef.current, editState);
+    committedStateRef.current = editState;
+    // 이름 붙인 동작이 아무것도 바꾸지 않았으면 이름을 다음 편집으로 넘기지 않음
+    if (ops.length === 0) {
+      historyLabelRef.current = null;
+      return;
+    }
+
+    const now = Date.now();
+    const key = historyCoalesceKey(ops);
+    const group = historyGroupRef.current;
+    const label = historyLabelRef.current;
+    historyLabelRef.current = null;
+
+    const entries = history.slice(0, historyIndex);
+    const last = entries[entries.length - 1];
+    const coalesce = group
+      ? !!group.entry && group.entry === last
+      : !label && !!last && !!key && last.key === key && now - last.time < HISTORY_COALESCE_MS;
+
+    let entry: HistoryEntry;
+    if (coalesce) {
+      entry = { ...last, ops: mergeHistoryOps(last.ops, ops), time: now };
+      entries[entries.length - 1] = entry;
+    } else {
+      entry = { label: label || group?.label || describeHistoryOps(ops), ops, key, time: now };
+      entries.push(entry);
+    }
+    if (group) group.entry = entry;
+
+    // 오래된 단계부터 버려 페이지당 메모리를 일정하게 유지
+    const trimmed = entries.slice(-MAX_HISTORY_STEPS);
+    setHistory(trimmed);
+    setHistoryIndex(trimmed.length);
+  }, [selections, replacements, stickers, customTexts, layers]);
+
+  // 현재 단계에서 target 단계까지 차례로 되돌리거나 다시 적용
+  const goToHistoryStep = (target: number) => {
+    if (target < 0 || target > history.length || target === historyIndex) return;
+    let state = editState;
+    if (target < historyIndex) {
+      for (let i = historyIndex - 1; i >= target; i--) state = applyHistoryOps(state, history[i].ops, true);
+    } else {
+      for (let i = historyIndex; i < target; i++) state = applyHistoryOps(state, history[i].ops, false);
+    }
+    historyGroupRef.current = null;
+    applyEditState(state);
+    setHistoryIndex(target);
+  };
+
+  const undo = () => goToHistoryStep(historyIndex - 1);
+
+  const redo = () => goToHistoryStep(historyIndex + 1);
+
+  // =====================================================
+  // ⌨️ v4.0: 단축키
+  // =====================================================
+  // 보이고 잠기지 않은 선택 항목만 편집
+  const getEditableSelections = (): LayerRef[] =>
+    selectedItems.filter((ref) => orderedLayers.some((l) => isLayerRef(ref, l) && !l.hidden && !l.locked));
+
+  // v4.0: 그룹에 속한 항목은 같은 그룹 전체로 넓힘
+  const expandToGroups = (refs: LayerRef[]): LayerRef[] => {
+    const groupIds = new Set(
+      orderedLayers.filter((l) => l.groupId && refs.some((ref) => isLayerRef(ref, l))).map((l) => l.groupId)
+    );
+    const members = orderedLayers
+      .filter((l) => l.groupId && groupIds.has(l.groupId) && !l.hidden && !l.locked)
+      .filter((l) => !refs.some((ref) => isLayerRef(ref, l)))
+      .map((l) => ({ id: l.id, type: l.kind }));
+    return [...refs, ...members];
+  };
+
+  const setSelectedId = (target: LayerRef | null) => {
+    setSelectedItems(target ? expandToGroups([target]) : []);
+  };
+
+  // Shift+클릭: 이미 선택돼 있으면 (그룹째) 빼고, 아니면 더함
+  const toggleSelectedItem = (target: LayerRef) => {
+    const group = expandToGroups([target]);
+    const inGroup = (ref: LayerRef) => group.some((g) => g.id === ref.id && g.type === ref.type);
+    const isSelected = selectedItems.some((ref) => ref.id === target.id && ref.type === target.type);
+    setSelectedItems(
+      isSelected
+        ? selectedItems.filter((ref) => !inGroup(ref))
+        : [...selectedItems.filter((ref) => !inGroup(ref)), ...group]
+    );
+  };
+
+  // 단축키와 길게 누르기 메뉴 공용
+  const removeLayerItem = (target: { id: number; type: LayerKind }) => {
+    if (target.type === 'selection') removeSelection(target.id);
+    else if (target.type === 'sticker') removeSticker(target.id);
+    else removeCustomText(target.id);
+  };
+
+  const removeSelectedItems = () => {
+    const targets = getEditableSelections();
+    if (targets.length === 0) return;
+    if (targets.length > 1) nameNextHistoryStep(`항목 ${targets.length}개 삭제`);
+    targets.forEach(removeLayerItem);
+    setSelectedItems([]);
+  };
+
+  const duplicateLayerItem = (target: LayerRef, newId = Date.now()): LayerRef => {
+    if (target.type === 'selection') {
+      const sel = selections.find((s) => s.id === target.id)!;
+      const img = replacementImagesRef.current.get(sel.id);
+      if (img) replacementImagesRef.current.set(newId, img);
+      setSelections((prev) => [...prev, { ...sel, id: newId, x: sel.x + DUPLICATE_OFFSET, y: sel.y + DUPLICATE_OFFSET }]);
+      if (replacements[sel.id]) setReplacements((prev) => ({ ...prev, [newId]: prev[sel.id] }));
+    } else if (target.type === 'sticker') {
+      const stk = stickers.find((s) => s.id === target.id)!;
+      const img = stickerImagesRef.current.get(stk.id);
+      if (img) stickerImagesRef.current.set(newId, img);
+      setStickers((prev) => [...prev, { ...stk, id: newId, x: stk.x + DUPLICATE_OFFSET, y: stk.y + DUPLICATE_OFFSET }]);
+    } else {
+      const txt = customTexts.find((t) => t.id === target.id)!;
+      setCustomTexts((prev) => [
+        ...prev,
+        { ...txt, id: newId, segments: txt.segments.map((seg) => ({ ...seg })), x: txt.x + DUPLICATE_OFFSET, y: txt.y + DUPLICATE_OFFSET },
+      ]);
+    }
+
+    nameNextHistoryStep(`${target.type === 'selection' ? '영역' : target.type === 'sticker' ? '스티커' : '글씨'} 복제`);
+    return { id: newId, type: target.type };
+  };
+
+  const duplicateSelectedItems = () => {
+    const targets = getEditableSelections();
+    if (targets.length === 0) return;
+    const baseId = Date.now();
+    const copies = targets.map((target, idx) => duplicateLayerItem(target, baseId + idx));
+    if (targets.length > 1) nameNextHistoryStep(`항목 ${targets.length}개 복제`);
+    setSelectedItems(copies);
+  };
+
+  // =====================================================
+  // 🧩 v4.0: 그룹 / 정렬
+  // =====================================================
+  const groupSelectedItems = () => {
+    const targets = getEditableSelections();
+    if (targets.length < 2) return;
+    const groupId = Date.now();
+    nameNextHistoryStep(`그룹 만들기 (${targets.length}개)`);
+    setLayers(orderedLayers.map((l) => (targets.some((ref) => isLayerRef(ref, l)) ? { ...l, groupId } : l)));
+  };
+
+  const ungroupSelectedItems = () => {
+    const targets = getEditableSelections();
+    const grouped = orderedLayers.filter((l) => l.groupId && targets.some((ref) => isLayerRef(ref, l)));
+    if (grouped.length === 0) return;
+    nameNextHistoryStep('그룹 해제');
+    setLayers(
+      orderedLayers.map((l) => {
+        if (!grouped.some((g) => layerKey(g) === layerKey(l))) return l;
+        const { groupId, ...rest } = l;
+        return rest;
+      })
+    );
+  };
+
+  // 정렬 / 균등 배치 단위 - 그룹은 멤버 전체를 감싸는 상자 하나로 취급해 모양을 유지
+  const getSelectionUnits = () => {
+    const units = new Map<string, { refs: LayerRef[]; boxes: Rect[] }>();
+    getEditableSelections().forEach((ref) => {
+      const layer = orderedLayers.find((l) => isLayerRef(ref, l))!;
+      const frame = getLayerFrame(ref.type, ref.id);
+      if (!frame) return;
+      const unitKey = layer.groupId ? `group-${layer.groupId}` : layerKey(layer);
+      const unit = units.get(unitKey) || { refs: [], boxes: [] };
+      unit.refs.push(ref);
+      unit.boxes.push(frameBounds(frame));
+      units.set(unitKey, unit);
+    });
+    return [...units.values()].map(({ refs, boxes }) => ({ refs, box: unionRects(boxes) }));
+  };
+
+  const moveSelectionUnits = (units: { refs: LayerRef[] }[], offsets: { dx: number; dy: number }[]) => {
+    units.forEach((unit, idx) => unit.refs.forEach((ref) => moveLayerBy(ref, offsets[idx].dx, offsets[idx].dy)));
+  };
+
+  const alignSelectedItems = (mode: AlignMode) => {
+    const units = getSelectionUnits();
+    if (units.length < 2) return;
+    nameNextHistoryStep(`${ALIGN_OPTIONS.find((o) => o.mode === mode)!.label} 정렬`);
+    moveSelectionUnits(units, alignOffsets(units.map((u) => u.box), mode));
+  };
+
+  const distributeSelectedItems = (axis: 'x' | 'y') => {
+    const units = getSelectionUnits();
+    if (units.length < 3) return;
+    nameNextHistoryStep(axis === 'x' ? '가로 간격 균등' : '세로 간격 균등');
+    moveSelectionUnits(units, distributeOffsets(units.map((u) => u.box), axis));
+  };
+
+  const selectionUnitCount = selectedItems.length > 1 ? getSelectionUnits().length : 0;
+
+  // 스포이드 → 그리던 영역 / 범위 선택 → 도움말 → 선택 순으로 하나씩 취소
+  const cancelCurrentAction = () => {
+    if (eyedropperMode.active) {
+      setEyedropperMode({ active: false, selectionId: null, target: 'text' });
+    } else if (marqueeRef.current) {
+      marqueeRef.current = null;
+      redrawCanvas();
+    } else if (isDrawing.current) {
+      isDrawing.current = false;
+      draftRectRef.current = null;
+      redrawCanvas();
+    } else if (showShortcuts) {
+      setShowShortcuts(false);
+    } else {
+      setSelectedItems([]);
+    }
+  };
+
+  const handleShortcutKeyDown = (e: KeyboardEvent) => {
+    if (isTypingTarget(e.target)) return;
+    const key = e.key.toLowerCase();
+    const mod = e.ctrlKey || e.metaKey;
+
+    if (key === 'escape') {
+      cancelCurrentAction();
+      return;
+    }
+    if (e.key === '?') {
+      setShowShortcuts((prev) => !prev);
+      return;
+    }
+    if (!image) return;
+
+    if (e.code === 'Space') {
+      if (isActivatableTarget(e.target)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+      return;
+    }
+    if (mod && key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+      return;
+    }
+    if (mod && key === 'y') {
+      e.preventDefault();
+      redo();
+      return;
+    }
+    if (mod && key === 'd') {
+      e.preventDefault();
+      duplicateSelectedItems();
+      return;
+    }
+    if (mod && key === 'a') {
+      e.preventDefault();
+      setSelectedItems(
+        orderedLayers.filter((l) => !l.hidden && !l.locked).map((l) => ({ id: l.id, type: l.kind }))
+      );
+      return;
+    }
+    if (mod && key === 'g') {
+      e.preventDefault();
+      if (e.shiftKey) ungroupSelectedItems();
+      else groupSelectedItems();
+      return;
+    }
+    if (mod || e.altKey) return;
+
+    if (key === 'delete' || key === 'backspace') {
+      e.preventDefault();
+      removeSelectedItems();
+      return;
+    }
+
+    const arrow = { arrowleft: [-1, 0], arrowright: [1, 0], arrowup: [0, -1], arrowdown: [0, 1] }[key];
+    if (arrow) {
+      const targets = getEditableSelections();
+      if (targets.length === 0) return;
+      e.preventDefault();
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      if (!nudgingRef.current) {
+        nudgingRef.current = true;
+        beginHistoryGroup();
+      }
+      targets.forEach((ref) => moveLayerBy(ref, arrow[0] * step, arrow[1] * step));
+      return;
+    }
+
+    if (DRAW_MODE_KEYS[key]) {
+      setDrawMode(DRAW_MODE_KEYS[key]);
+    }
   };
 
-  const undo = () => {
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      const state = history[newIndex];
-      setSelections(state.selections);
-      setReplacements(state.replacements);
-      setStickers(state.stickers);
-      setCustomTexts(state.customTexts);
-      setHistoryIndex(newIndex);
+  const handleShortcutKeyUp = (e: KeyboardEvent) => {
+    if (e.code === 'Space') setSpaceHeld(false);
+    if (e.key.startsWith('Arrow') && nudgingRef.current) {
+      nudgingRef.current = false;
+      endHistoryGroup();
     }
   };
 
-  const redo = () => {
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      const state = history[newIndex];
-      setSelections(state.selections);
-      setReplacements(state.replacements);
-      setStickers(state.stickers);
-      setCustomTexts(state.customTexts);
-      setHistoryIndex(newIndex);
+  // 키를 누른 채 창을 벗어나면 keyup 이 오지 않으므로 눌린 상태를 여기서 풂
+  const handleShortcutBlur = () => {
+    setSpaceHeld(false);
+    if (nudgingRef.current) {
+      nudgingRef.current = false;
+      endHistoryGroup();
     }
   };
 
-  const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
-    // v3.4: 줄바꿈 문자 지원
-    return wrapTextWithNewlines(ctx, text, maxWidth);
+  // 리스너는 한 번만 등록하고 매 렌더의 최신 핸들러를 호출
+  const shortcutHandlersRef = useRef({ down: handleShortcutKeyDown, up: handleShortcutKeyUp, blur: handleShortcutBlur });
+  shortcutHandlersRef.current = { down: handleShortcutKeyDown, up: handleShortcutKeyUp, blur: handleShortcutBlur };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutHandlersRef.current.down(e);
+    const onKeyUp = (e: KeyboardEvent) => shortcutHandlersRef.current.up(e);
+    const onBlur = () => shortcutHandlersRef.current.blur();
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, []);
+
+  // 원본(base) 위에 편집 내용을 합성 - 결과 보기와 PDF 내보내기에서 공용
+  // v4.0: 레이어 순서(아래 → 위)대로 합성, 숨긴 레이어는 제외
+  // v4.0: AI 이미지 외에는 편집 화면과 같은 장면 렌더러(drawSceneLayer)로 그림
+  const composeEdits = (ctx: CanvasRenderingContext2D, state: HistoryState, base: ImageData) =>
+    composeScene(ctx, state, getSceneAssets(base), {
+      onStep: setProcessStep,
+      drawAiLayer: (sel) => drawAiLayer(ctx, sel, state.replacements[sel.id] || ''),
+    });
+
+  // AI 이미지 영역 - 지금까지 합성된 캔버스를 보내고 생성 결과를 영역에 그림
+  const drawAiLayer = async (ctx: CanvasRenderingContext2D, sel: SelectionArea, prompt: string) => {
+    if (!prompt) return;
+
+    try {
+      let apiKey = manualKey || localStorage.getItem(STORAGE_KEY);
+      if (!apiKey && (window as any).aistudio?.getSelectedApiKey) {
+        apiKey = await (window as any).aistudio.getSelectedApiKey();
+      }
+
+      if (!apiKey) {
+        alert('API Key가 필요합니다.');
+        return;
+      }
+
+      const genAI = new GoogleGenAI({ apiKey });
+      const imageDataUrl = ctx.canvas.toDataURL('image/png');
+      const base64 = imageDataUrl.split(',')[1];
+
+      const response = await genAI.models.generateContent({
+        model: 'gemini-2.0-flash-exp-image-generation',
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                inlineData: { mimeType: 'image/png', data: base64 },
+              },
+              {
+                text: `영역 (${sel.x}, ${sel.y}, ${sel.w}x${sel.h})에 "${prompt}"을 자연스럽게 그려주세요.`,
+              },
+            ],
+          },
+        ],
+        config: {
+          responseModalities: ['TEXT', 'IMAGE'],
+        },
+      });
+
+      const parts = response.candidates?.[0]?.content?.parts;
+      if (parts) {
+        for (const part of parts) {
+          if (part.inlineData?.data) {
+            const aiImage = new Image();
+            await new Promise<void>((resolve) => {
+              aiImage.onload = () => {
+                ctx.drawImage(aiImage, sel.x, sel.y, sel.w, sel.h);
+                resolve();
+              };
+              aiImage.src = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+            });
+            break;
+          }
+        }
+      }
+    } catch (error: any) {
+      console.error('AI 이미지 생성 실패:', error);
+    }
   };
 
   const handleRestore = async () => {
@@ -1001,186 +5056,302 @@ function App() {
       setIsProcessing(true);
       setProcessStep('준비 중...');
 
+      // v4.0: 결과는 항상 원본 해상도
       const canvas = document.createElement('canvas');
-      canvas.width = canvasRef.current.width;
-      canvas.height = canvasRef.current.height;
+      canvas.width = originalImageData.width;
+      canvas.height = originalImageData.height;
       const ctx = canvas.getContext('2d')!;
       ctx.putImageData(originalImageData, 0, 0);
 
-      const textSelections = selections.filter((s) => s.type === 'text');
-      const imageAISelections = selections.filter((s) => s.type === 'image-ai');
-      const imageReplaceSelections = selections.filter((s) => s.type === 'image-replace');
+      await composeEdits(ctx, editState, originalImageData);
+
+      resultCanvasRef.current = canvas;
+      setResultImage(canvas.toDataURL('image/png'));
+      setProcessStep('완료!');
+
+      setTimeout(() => {
+        resultRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }, 100);
+    } catch (error) {
+      console.error('복원 실패:', error);
+      setProcessStep('오류 발생');
+    } finally {
+      setTimeout(() => {
+        setIsProcessing(false);
+        setProcessStep('');
+      }, 1000);
+    }
+  };
+
+  // v4.0: 선택한 형식으로 인코딩. 메타데이터 유지는 JPEG 원본 → JPEG 출력일 때만 가능
+  const encodeResult = async (canvas: HTMLCanvasElement): Promise<Blob> => {
+    let target = canvas;
+    if (exportFormat === 'image/jpeg') {
+      // JPEG 는 투명도가 없으므로 흰 배경 위에 합성
+      target = document.createElement('canvas');
+      target.width = canvas.width;
+      target.height = canvas.height;
+      const ctx = target.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, target.width, target.height);
+      ctx.drawImage(canvas, 0, 0);
+    }
+
+    const blob = await canvasToBlob(target, exportFormat, exportFormat === 'image/png' ? undefined : exportQuality);
+    const source = sourceFileRef.current;
+    if (stripMetadata || blob.type !== 'image/jpeg' || source?.mimeType !== 'image/jpeg') return blob;
+
+    const exif = extractJpegExif(new Uint8Array(await (await fetch(source.dataUrl)).arrayBuffer()));
+    if (exif.length === 0) return blob;
+    return new Blob([insertJpegSegments(new Uint8Array(await blob.arrayBuffer()), exif)], { type: 'image/jpeg' });
+  };
+
+  // 설정이 바뀔 때마다 다시 인코딩해 용량 미리보기
+  useEffect(() => {
+    const canvas = resultCanvasRef.current;
+    if (!resultImage || !canvas) {
+      setExportBlob(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      encodeResult(canvas)
+        .then((blob) => !cancelled && setExportBlob(blob))
+        .catch((error) => console.warn('결과물 인코딩 실패:', error));
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [resultImage, exportFormat, exportQuality, stripMetadata]);
+
+  const downloadResult = () => {
+    if (!exportBlob) return;
+    // 브라우저가 WebP 인코딩을 지원하지 않으면 PNG 로 나오므로 실제 형식 기준으로 확장자 결정
+    const ext = EXPORT_FORMAT_OPTIONS.find((o) => o.value === exportBlob.type)?.ext ?? 'png';
+    const baseName = sourceFileRef.current ? stripExtension(sourceFileRef.current.name) : 'restored';
+    const pageSuffix = pdfDoc ? `_p${currentPageNum}` : '';
+    const url = URL.createObjectURL(exportBlob);
+    const link = document.createElement('a');
+    link.download = `${baseName}${pageSuffix}_edited.${ext}`;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // =====================================================
+  // 📦 v4.0: 일괄 처리
+  // =====================================================
+  const updateBatchItem = (id: number, updates: Partial<BatchItem>) => {
+    setBatchItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  };
+
+  const updateBatchRules = (rules: TypoEntry[]) => {
+    setBatchRules(rules);
+    localStorage.setItem(BATCH_RULES_KEY, JSON.stringify(rules));
+  };
+
+  const addBatchRule = () => {
+    const wrong = newBatchRule.wrong.trim();
+    const right = newBatchRule.right.trim();
+    if (!wrong) return;
+    updateBatchRules([...batchRules.filter((r) => r.wrong !== wrong), { wrong, right }]);
+    setNewBatchRule({ wrong: '', right: '' });
+  };
+
+  const handleBatchFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = (e.target.files ? Array.from<File>(e.target.files) : []).filter((file) => file.type.startsWith('image/'));
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const baseId = Date.now();
+    const items = await Promise.all(
+      files.map(async (file, idx): Promise<BatchItem> => ({
+        id: baseId + idx,
+        name: file.webkitRelativePath || file.name,
+        dataUrl: await readFileAsDataUrl(file),
+        status: 'pending',
+        state: null,
+        matchCount: 0,
+        resultUrl: null,
+        resultBlob: null,
+        included: true,
+      }))
+    );
+    setBatchItems((prev) => [...prev, ...items]);
+  };
+
+  // 한 장 처리: 전체 OCR → 규칙에 걸린 줄만 text 선택 영역으로 만들고 결과 렌더링
+  const processBatchItem = async (item: BatchItem, rules: TypoEntry[]): Promise<Partial<BatchItem>> => {
+    const img = await loadImageElement(item.dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0);
+    const base = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    const boxes = await scanPageText(canvas, 'line');
+    const state: HistoryState = { selections: [], replacements: {}, stickers: [], customTexts: [] };
+    let matchCount = 0;
+    boxes.forEach((box, idx) => {
+      const { text, count } = applyBatchRules(box.text, rules);
+      if (count === 0) return;
+      const sel = createSelectionFromBox(box, item.id * 1000 + idx, canvas);
+      state.selections.push(sel);
+      state.replacements[sel.id] = text.slice(0, MAX_CHAR_LIMIT);
+      matchCount += count;
+    });
+
+    await composeEdits(ctx, state, base);
+    const resultBlob = await canvasToBlob(canvas, 'image/png');
+    return { status: 'done', state, matchCount, resultBlob, resultUrl: URL.createObjectURL(resultBlob) };
+  };
+
+  // all=false 면 대기/오류 항목만, true 면 전체를 현재 규칙으로 다시 처리
+  const runBatch = async (all = false) => {
+    const rules = batchRules.filter((r) => r.wrong);
+    const targets = batchItems.filter((item) => all || item.status === 'pending' || item.status === 'error');
+    if (targets.length === 0) return;
 
-      for (const sel of textSelections) {
-        setProcessStep(`텍스트 영역 #${sel.id} 복원 중...`);
-        const newText = replacements[sel.id] || '';
-        
-        // v3.5: 회전 지원
-        ctx.save();
-        const centerX = sel.x + sel.w / 2;
-        const centerY = sel.y + sel.h / 2;
-        ctx.translate(centerX, centerY);
-        if (sel.textRotation) {
-          ctx.rotate((sel.textRotation * Math.PI) / 180);
-        }
-        
-        // 배경 채우기 (중심 기준)
-        ctx.fillStyle = sel.textBgColor || '#ffffff';
-        ctx.fillRect(-sel.w / 2, -sel.h / 2, sel.w, sel.h);
-
-        if (newText) {
-          ctx.fillStyle = sel.textColor || '#000000';
-          ctx.font = `${sel.fontWeight || 'normal'} ${sel.fontSize || 32}px ${sel.fontFamily || 'Noto Sans KR'}`;
-          ctx.textBaseline = 'middle';
-          ctx.textAlign = sel.textAlign || 'center';
-
-          // v3.5.1: 패딩 최소화 (sel.w - 4)
-          const lines = wrapText(ctx, newText, sel.w - 4);
-          const lineHeight = (sel.fontSize || 32) * 1.2;
-          const totalHeight = lines.length * lineHeight;
-          let startY = -totalHeight / 2 + lineHeight / 2;
-
-          lines.forEach((line) => {
-            const textX =
-              sel.textAlign === 'left'
-                ? -sel.w / 2 + 2
-                : sel.textAlign === 'right'
-                ? sel.w / 2 - 2
-                : 0;
-            ctx.fillText(line, textX, startY);
-            startY += lineHeight;
-          });
-        }
-        ctx.restore();
+    setBatchRunning(true);
+    for (const item of targets) {
+      updateBatchItem(item.id, { status: 'processing', error: undefined });
+      try {
+        const result = await processBatchItem(item, rules);
+        if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+        updateBatchItem(item.id, result);
+      } catch (error: unknown) {
+        console.error(`일괄 처리 실패 (${item.name}):`, error);
+        updateBatchItem(item.id, { status: 'error', error: error instanceof Error ? error.message : String(error) });
       }
+    }
+    setBatchRunning(false);
+  };
 
-      for (const sel of imageAISelections) {
-        setProcessStep(`AI 이미지 #${sel.id} 복원 중...`);
-        const prompt = replacements[sel.id] || '';
-        if (!prompt) continue;
+  // 검토: 자동 생성된 선택 영역을 편집기에서 열어 수정
+  const openBatchItem = (item: BatchItem) => {
+    if (!item.state) return;
+    const state = item.state;
+    setActiveBatchId(item.id);
+    openProject(async () => ({
+      version: PROJECT_VERSION,
+      savedAt: new Date().toISOString(),
+      source: {
+        name: item.name.split('/').pop() || item.name,
+        mimeType: item.dataUrl.slice(5, item.dataUrl.indexOf(';')),
+        dataUrl: item.dataUrl,
+      },
+      currentPage: 1,
+      pages: { 1: state },
+    }));
+  };
 
-        try {
-          let apiKey = manualKey || localStorage.getItem(STORAGE_KEY);
-          if (!apiKey && (window as any).aistudio?.getSelectedApiKey) {
-            apiKey = await (window as any).aistudio.getSelectedApiKey();
-          }
+  // 편집기에서 고친 내용을 큐 항목 결과로 반영
+  const applyEditorToBatchItem = async () => {
+    const item = batchItems.find((i) => i.id === activeBatchId);
+    if (!item || !originalImageData) return;
 
-          if (!apiKey) {
-            alert('API Key가 필요합니다.');
-            continue;
-          }
+    const canvas = document.createElement('canvas');
+    canvas.width = originalImageData.width;
+    canvas.height = originalImageData.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.putImageData(originalImageData, 0, 0);
+    const state = editState;
+    await composeEdits(ctx, state, originalImageData);
 
-          const genAI = new GoogleGenAI({ apiKey });
-          const imageDataUrl = canvas.toDataURL('image/png');
-          const base64 = imageDataUrl.split(',')[1];
+    const resultBlob = await canvasToBlob(canvas, 'image/png');
+    if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+    updateBatchItem(item.id, { status: 'done', state, resultBlob, resultUrl: URL.createObjectURL(resultBlob) });
+  };
 
-          const response = await genAI.models.generateContent({
-            model: 'gemini-2.0-flash-exp-image-generation',
-            contents: [
-              {
-                role: 'user',
-                parts: [
-                  {
-                    inlineData: { mimeType: 'image/png', data: base64 },
-                  },
-                  {
-                    text: `영역 (${sel.x}, ${sel.y}, ${sel.w}x${sel.h})에 "${prompt}"을 자연스럽게 그려주세요.`,
-                  },
-                ],
-              },
-            ],
-            config: {
-              responseModalities: ['TEXT', 'IMAGE'],
-            },
-          });
+  const removeBatchItem = (id: number) => {
+    const item = batchItems.find((i) => i.id === id);
+    if (item?.resultUrl) URL.revokeObjectURL(item.resultUrl);
+    setBatchItems((prev) => prev.filter((i) => i.id !== id));
+    if (activeBatchId === id) setActiveBatchId(null);
+  };
 
-          const parts = response.candidates?.[0]?.content?.parts;
-          if (parts) {
-            for (const part of parts) {
-              if (part.inlineData?.data) {
-                const aiImage = new Image();
-                await new Promise<void>((resolve) => {
-                  aiImage.onload = () => {
-                    ctx.drawImage(aiImage, sel.x, sel.y, sel.w, sel.h);
-                    resolve();
-                  };
-                  aiImage.src = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                });
-                break;
-              }
-            }
-          }
-        } catch (error: any) {
-          console.error('AI 이미지 생성 실패:', error);
-        }
-      }
+  const exportBatchZip = async () => {
+    const items = batchItems.filter((item) => item.included && item.resultBlob);
+    if (items.length === 0) return;
 
-      for (const sel of imageReplaceSelections) {
-        if (!sel.replacementImage) continue;
-        setProcessStep(`이미지 #${sel.id} 교체 중...`);
-
-        ctx.fillStyle = sel.textBgColor || '#ffffff';
-        ctx.fillRect(sel.x, sel.y, sel.w, sel.h);
-
-        const img = replacementImagesRef.current.get(sel.id);
-        if (img && img.complete) {
-          ctx.save();
-          ctx.translate(sel.x + sel.w / 2, sel.y + sel.h / 2);
-          if (sel.imageRotation) ctx.rotate((sel.imageRotation * Math.PI) / 180);
-          const scaleX = sel.imageFlipX ? -1 : 1;
-          const scaleY = sel.imageFlipY ? -1 : 1;
-          ctx.scale(scaleX, scaleY);
-          ctx.drawImage(img, -sel.w / 2, -sel.h / 2, sel.w, sel.h);
-          ctx.restore();
-        }
-      }
+    const used = new Set<string>();
+    const files: { [path: string]: Uint8Array } = {};
+    for (const item of items) {
+      const path = uniqueZipPath(`${stripExtension(item.name)}_edited.png`, used);
+      files[path] = new Uint8Array(await item.resultBlob!.arrayBuffer());
+    }
+    // PNG 는 이미 압축돼 있으므로 저장만 (level 0)
+    const zip = zipSync(files, { level: 0 });
+    const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.download = `batch_edited_${Date.now()}.zip`;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
 
-      for (const stk of stickers) {
-        const img = stickerImagesRef.current.get(stk.id);
-        if (!img || !img.complete) continue;
+  // =====================================================
+  // 📑 v4.0: 편집된 PDF 내보내기
+  // =====================================================
+  // 편집 없는 페이지는 원본 PDF 페이지를 그대로 복사하고,
+  // 편집된 페이지만 렌더링해 pdf.js viewport(scale 1) 크기의 페이지로 넣는다
+  const exportPdf = async () => {
+    const source = sourceFileRef.current;
+    if (!pdfDoc || !source || source.mimeType !== 'application/pdf') return;
+
+    setIsProcessing(true);
+    setProcessStep('PDF 준비 중...');
+    try {
+      const pages: { [pageNum: number]: HistoryState } = {};
+      Object.keys(pageStates).map(Number).forEach((pageNum) => {
+        pages[pageNum] = pageStates[pageNum].state;
+      });
+      pages[currentPageNum] = editState;
 
-        ctx.save();
-        ctx.globalAlpha = stk.opacity;
-        ctx.translate(stk.x, stk.y);
-        ctx.rotate((stk.rotation * Math.PI) / 180);
-        const scaleX = stk.flipX ? -1 : 1;
-        ctx.scale(scaleX * stk.scale, stk.scale);
-        ctx.drawImage(img, -stk.w / 2, -stk.h / 2, stk.w, stk.h);
-        ctx.restore();
-      }
+      const sourcePdf = await PDFDocument.load(await (await fetch(source.dataUrl)).arrayBuffer());
+      const output = await PDFDocument.create();
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d')!;
 
-      for (const txt of customTexts) {
-        ctx.save();
-        ctx.globalAlpha = txt.opacity;
-        ctx.translate(txt.x, txt.y);
-        ctx.rotate((txt.rotation * Math.PI) / 180);
-        ctx.font = `${txt.fontWeight} ${txt.fontSize * txt.scale}px ${txt.fontFamily || 'Noto Sans KR'}`;
-
-        // v3.5: 줄바꿈 지원
-        let currentX = 0;
-        let currentY = 0;
-        const lineHeight = txt.fontSize * txt.scale * 1.2;
-        
-        txt.segments.forEach((seg) => {
-          if (seg.newLine) {
-            currentX = 0;
-            currentY += lineHeight;
-          }
-          ctx.fillStyle = seg.color;
-          ctx.fillText(seg.text, currentX, currentY);
-          currentX += ctx.measureText(seg.text).width;
-        });
-        ctx.restore();
+      for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+        const state = pages[pageNum];
+        if (!state || !hasEdits(state)) {
+          const [copied] = await output.copyPages(sourcePdf, [pageNum - 1]);
+          output.addPage(copied);
+          continue;
+        }
+
+        setProcessStep(`${pageNum} / ${numPages} 페이지 렌더링 중...`);
+        const page = await pdfDoc.getPage(pageNum);
+        const pageSize = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+        canvas.width = viewport.width;
+        canvas.height = viewport.height;
+        await page.render({ canvasContext: ctx, viewport }).promise;
+
+        const base = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        await composeEdits(ctx, state, base);
+
+        const png = await output.embedPng(canvas.toDataURL('image/png'));
+        output
+          .addPage([pageSize.width, pageSize.height])
+          .drawImage(png, { x: 0, y: 0, width: pageSize.width, height: pageSize.height });
       }
 
-      setResultImage(canvas.toDataURL('image/png'));
+      setProcessStep('PDF 저장 중...');
+      const bytes = await output.save();
+      const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.download = `${stripExtension(source.name)}_edited.pdf`;
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
       setProcessStep('완료!');
-
-      setTimeout(() => {
-        resultRef.current?.scrollIntoView({ behavior: 'smooth' });
-      }, 100);
-    } catch (error) {
-      console.error('복원 실패:', error);
+    } catch (error: any) {
+      console.error('PDF 내보내기 실패:', error);
+      alert(`PDF 내보내기 실패: ${error.message || error}`);
       setProcessStep('오류 발생');
     } finally {
       setTimeout(() => {
@@ -1190,14 +5361,6 @@ function App() {
     }
   };
 
-  const downloadResult = () => {
-    if (!resultImage) return;
-    const link = document.createElement('a');
-    link.download = `restored_${Date.now()}.png`;
-    link.href = resultImage;
-    link.click();
-  };
-
   const modeInfo = {
     text: { icon: '📝', label: '텍스트 교정', color: 'red' },
     'image-ai': { icon: '🎨', label: 'AI 이미지 수정', color: 'purple' },
@@ -1238,12 +5401,83 @@ function App() {
             )}
             <label className="cursor-pointer px-4 py-2 bg-white hover:bg-slate-50 rounded-xl border border-slate-200 shadow-sm transition font-medium text-sm">
               📁 파일 업로드
-              <input type="file" accept=".pdf,image/*" onChange={handleFileChange} className="hidden" />
+              <input type="file" accept={`.pdf,image/*,${PROJECT_EXTENSION}`} onChange={handleFileChange} className="hidden" />
             </label>
+            {image && (
+              <button
+                onClick={saveProject}
+                disabled={!sourceReady}
+                className="px-4 py-2 bg-white hover:bg-slate-50 rounded-xl border border-slate-200 shadow-sm transition font-medium text-sm disabled:opacity-50"
+                title={sourceReady ? '원본과 편집 내용을 .kbproj 파일 하나로 저장' : '원본 파일을 읽는 중...'}
+              >
+                💾 프로젝트 저장
+              </button>
+            )}
           </div>
         </div>
       </header>
 
+      {/* v3.9: PDF 페이지 썸네일 (편집된 페이지 표시) */}
+      {pdfDoc && numPages > 1 && (
+        <div className="max-w-7xl mx-auto mb-4 w-full bg-white rounded-2xl p-3 shadow-sm border border-slate-100">
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {Array.from({ length: numPages }, (_, i) => i + 1).map((pageNum) => (
+              <button
+                key={pageNum}
+                onClick={() => goToPage(pageNum)}
+                className={`relative shrink-0 rounded-lg border-2 overflow-hidden transition ${
+                  pageNum === currentPageNum ? 'border-indigo-500' : 'border-slate-200 hover:border-indigo-300'
+                }`}
+                style={{ width: THUMBNAIL_WIDTH }}
+              >
+                {pageThumbnails[pageNum - 1] ? (
+                  <img src={pageThumbnails[pageNum - 1]} alt={`${pageNum} 페이지`} className="w-full block" />
+                ) : (
+                  <div className="w-full aspect-[3/4] bg-slate-100 animate-pulse" />
+                )}
+                <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] text-center">
+                  {pageNum}
+                </span>
+                {pageHasEdits(pageNum) && (
+                  <span
+                    className="absolute top-1 right-1 w-4 h-4 rounded-full bg-orange-500 text-white text-[9px] leading-4 text-center shadow"
+                    title="편집됨"
+                  >
+                    ✎
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* v3.9: 지난 세션 복구 제안 */}
+      {restorePrompt && !image && (
+        <div className="max-w-7xl mx-auto mb-4 w-full bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 flex items-center justify-between gap-3">
+          <p className="text-sm text-amber-800">
+            🕘 이전 작업을 복구할까요? <span className="font-bold">{restorePrompt.name}</span>
+            <span className="text-xs text-amber-600 ml-2">
+              {new Date(restorePrompt.updatedAt).toLocaleString('ko-KR')}
+            </span>
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => restoreAutosave(restorePrompt)}
+              className="px-3 py-1.5 bg-amber-500 text-white rounded-lg text-sm font-medium hover:bg-amber-600"
+            >
+              복구
+            </button>
+            <button
+              onClick={() => setRestorePrompt(null)}
+              className="px-3 py-1.5 bg-white text-amber-700 border border-amber-200 rounded-lg text-sm hover:bg-amber-100"
+            >
+              무시
+            </button>
+          </div>
+        </div>
+      )}
+
       <main className="max-w-7xl mx-auto grid lg:grid-cols-4 gap-6 flex-1 w-full">
         <aside className="lg:col-span-1 bg-white rounded-2xl p-5 shadow-sm border border-slate-100 h-fit sticky top-6 space-y-4 max-h-[calc(100vh-120px)] overflow-y-auto">
           {/* 자동 분석 토글 */}
@@ -1268,6 +5502,28 @@ function App() {
             </div>
           </div>
 
+          {/* v3.6: OCR 토글 */}
+          <div className="bg-gradient-to-r from-sky-50 to-cyan-50 rounded-xl p-3 border border-sky-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-bold text-sky-800 text-sm">🔤 원문 자동 인식</h3>
+                <p className="text-[10px] text-sky-600">텍스트 영역 OCR로 입력칸 채우기</p>
+              </div>
+              <button
+                onClick={() => setOcrEnabled(!ocrEnabled)}
+                className={`w-12 h-6 rounded-full transition-all duration-300 ${
+                  ocrEnabled ? 'bg-sky-500' : 'bg-slate-300'
+                }`}
+              >
+                <div
+                  className={`w-5 h-5 bg-white rounded-full shadow transition-transform duration-300 ${
+                    ocrEnabled ? 'translate-x-6' : 'translate-x-0.5'
+                  }`}
+                />
+              </button>
+            </div>
+          </div>
+
           {/* v3.4: 실시간 미리보기 토글 */}
           <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-3 border border-blue-200">
             <div className="flex items-center justify-between">
@@ -1313,46 +5569,649 @@ function App() {
                     <div className="text-xl">{info.icon}</div>
                     <div className="text-[10px] font-medium text-slate-600">{info.label}</div>
                   </button>
-                );
-              })}
+                );
+              })}
+            </div>
+          </section>
+
+          {/* 히스토리 & 스티커 */}
+          <section className="flex gap-2">
+            <button
+              onClick={undo}
+              disabled={historyIndex <= 0}
+              className="flex-1 py-2 bg-slate-100 rounded-lg text-sm font-medium hover:bg-slate-200 disabled:opacity-50 transition"
+            >
+              ↩️ 실행취소
+            </button>
+            <button
+              onClick={redo}
+              disabled={historyIndex >= history.length}
+              className="flex-1 py-2 bg-slate-100 rounded-lg text-sm font-medium hover:bg-slate-200 disabled:opacity-50 transition"
+            >
+              ↪️ 다시실행
+            </button>
+          </section>
+
+          {/* v4.0: 히스토리 단계 목록 - 누르면 그 단계로 이동 */}
+          {history.length > 0 && (
+            <details className="bg-slate-50 rounded-xl p-3 border border-slate-200">
+              <summary className="font-bold text-slate-700 text-sm cursor-pointer">
+                🕘 히스토리 ({historyIndex}/{history.length})
+              </summary>
+              <div className="space-y-0.5 mt-2 max-h-48 overflow-y-auto">
+                {[...history].reverse().map((entry, revIdx) => {
+                  const step = history.length - revIdx;
+                  return (
+                    <button
+                      key={`${step}-${entry.time}`}
+                      onClick={() => goToHistoryStep(step)}
+                      className={`w-full flex justify-between gap-2 px-2 py-1 rounded text-xs text-left transition ${
+                        step === historyIndex
+                          ? 'bg-blue-500 text-white font-semibold'
+                          : step > historyIndex
+                          ? 'text-slate-400 hover:bg-slate-100'
+                          : 'text-slate-700 hover:bg-slate-100'
+                      }`}
+                    >
+                      <span className="truncate">{entry.label}</span>
+                      <span className="shrink-0 opacity-70">
+                        {new Date(entry.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                      </span>
+                    </button>
+                  );
+                })}
+                <button
+                  onClick={() => goToHistoryStep(0)}
+                  className={`w-full px-2 py-1 rounded text-xs text-left transition ${
+                    historyIndex === 0 ? 'bg-blue-500 text-white font-semibold' : 'text-slate-700 hover:bg-slate-100'
+                  }`}
+                >
+                  처음 상태
+                </button>
+              </div>
+              {history.length >= MAX_HISTORY_STEPS && (
+                <p className="text-[10px] text-slate-400 mt-1">최근 {MAX_HISTORY_STEPS}단계까지만 보관합니다.</p>
+              )}
+            </details>
+          )}
+
+          <section className="flex gap-2">
+            <label className="flex-1 py-2 bg-gradient-to-r from-pink-100 to-rose-100 rounded-lg text-sm font-medium text-center cursor-pointer hover:from-pink-200 hover:to-rose-200 transition">
+              🎀 스티커 추가
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => e.target.files?.[0] && handleStickerUpload(e.target.files[0])}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={addCustomText}
+              disabled={!image}
+              className="flex-1 py-2 bg-gradient-to-r from-violet-100 to-purple-100 rounded-lg text-sm font-medium hover:from-violet-200 hover:to-purple-200 disabled:opacity-50 transition"
+            >
+              🌈 멀티컬러 글씨
+            </button></section>
+
+          {/* v4.0: 레이어 */}
+          {/* v4.0: 다중 선택 - 정렬 / 균등 배치 / 그룹 */}
+          {selectedItems.length > 1 && (
+            <section className="bg-indigo-50 rounded-xl p-3 border border-indigo-200 space-y-2">
+              <h3 className="font-bold text-indigo-700 text-sm">🧩 다중 선택 ({selectedItems.length}개)</h3>
+              <div className="grid grid-cols-6 gap-1">
+                {ALIGN_OPTIONS.map(({ mode, icon, label }) => (
+                  <button
+                    key={mode}
+                    onClick={() => alignSelectedItems(mode)}
+                    disabled={selectionUnitCount < 2}
+                    className="py-1 bg-white border border-indigo-200 rounded text-sm hover:bg-indigo-100 disabled:opacity-40"
+                    title={`${label} 정렬`}
+                  >
+                    {icon}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-1">
+                <button
+                  onClick={() => distributeSelectedItems('x')}
+                  disabled={selectionUnitCount < 3}
+                  className="py-1 bg-white border border-indigo-200 rounded text-xs hover:bg-indigo-100 disabled:opacity-40"
+                  title="3개 이상 (그룹은 하나로) 선택 시 사용 가능"
+                >
+                  ↔️ 가로 균등
+                </button>
+                <button
+                  onClick={() => distributeSelectedItems('y')}
+                  disabled={selectionUnitCount < 3}
+                  className="py-1 bg-white border border-indigo-200 rounded text-xs hover:bg-indigo-100 disabled:opacity-40"
+                  title="3개 이상 (그룹은 하나로) 선택 시 사용 가능"
+                >
+                  ↕️ 세로 균등
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-1">
+                <button
+                  onClick={groupSelectedItems}
+                  className="py-1 bg-white border border-indigo-200 rounded text-xs hover:bg-indigo-100"
+                  title="Ctrl+G"
+                >
+                  🔗 그룹
+                </button>
+                <button
+                  onClick={ungroupSelectedItems}
+                  disabled={!orderedLayers.some((l) => l.groupId && selectedItems.some((ref) => isLayerRef(ref, l)))}
+                  className="py-1 bg-white border border-indigo-200 rounded text-xs hover:bg-indigo-100 disabled:opacity-40"
+                  title="Ctrl+Shift+G"
+                >
+                  ✂️ 해제
+                </button>
+                <button
+                  onClick={removeSelectedItems}
+                  className="py-1 bg-white border border-red-200 text-red-600 rounded text-xs hover:bg-red-50"
+                >
+                  🗑️ 삭제
+                </button>
+              </div>
+            </section>
+          )}
+
+          {orderedLayers.length > 0 && (
+            <section className="bg-slate-50 rounded-xl p-3 border border-slate-200 space-y-1">
+              <h3 className="font-bold text-slate-700 text-sm mb-1">🗂️ 레이어 ({orderedLayers.length})</h3>
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {[...orderedLayers].reverse().map((layer, idx) => {
+                  const isSelected = selectedItems.some((ref) => isLayerRef(ref, layer));
+                  const icon = layer.kind === 'sticker' ? '🖼️' : layer.kind === 'text' ? '🌈' : '▭';
+                  return (
+                    <div
+                      key={layerKey(layer)}
+                      onClick={(e) => {
+                        if (layer.locked) return;
+                        const ref = { id: layer.id, type: layer.kind };
+                        if (e.shiftKey) toggleSelectedItem(ref);
+                        else setSelectedId(ref);
+                      }}
+                      className={`flex items-center gap-1 px-1.5 py-1 rounded text-xs cursor-pointer border ${
+                        isSelected ? 'bg-indigo-50 border-indigo-300' : 'bg-white border-slate-100 hover:bg-slate-100'
+                      } ${layer.hidden ? 'opacity-50' : ''}`}
+                    >
+                      <span className="w-4 text-center">{icon}</span>
+                      <span
+                        className="flex-1 min-w-0 truncate text-slate-700"
+                        onDoubleClick={() => renameLayer(layer)}
+                        title="더블클릭으로 이름 변경"
+                      >
+                        {layer.name || defaultLayerName(layer, editState)}
+                      </span>
+                      {layer.groupId && (
+                        <span className="text-indigo-400" title="그룹">
+                          🔗
+                        </span>
+                      )}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveLayer(layer, 1);
+                        }}
+                        disabled={idx === 0}
+                        className="px-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                        title="위로"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveLayer(layer, -1);
+                        }}
+                        disabled={idx === orderedLayers.length - 1}
+                        className="px-0.5 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                        title="아래로"
+                      >
+                        ▼
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          updateLayer(layer, { hidden: !layer.hidden });
+                        }}
+                        className={layer.hidden ? 'text-slate-300' : 'text-slate-500'}
+                        title={layer.hidden ? '보이기' : '숨기기'}
+                      >
+                        {layer.hidden ? '🙈' : '👁️'}
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          updateLayer(layer, { locked: !layer.locked });
+                        }}
+                        className={layer.locked ? 'text-amber-600' : 'text-slate-300'}
+                        title={layer.locked ? '잠금 해제' : '잠금'}
+                      >
+                        {layer.locked ? '🔒' : '🔓'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+
+          {/* v3.6: 페이지 스캔 */}
+          <section className="bg-sky-50 rounded-xl p-3 border border-sky-200 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold text-sky-800 text-sm">📄 페이지 스캔</h3>
+              <select
+                value={scanLevel}
+                onChange={(e) => setScanLevel(e.target.value as OcrScanLevel)}
+                className="text-[10px] p-1 border border-sky-200 rounded bg-white"
+              >
+                <option value="line">줄 단위</option>
+                <option value="paragraph">문단 단위</option>
+              </select>
+            </div>
+            <button
+              onClick={scanPage}
+              disabled={!image || isProcessing}
+              className="w-full py-2 bg-sky-500 text-white rounded-lg text-sm font-medium hover:bg-sky-600 disabled:opacity-50 transition"
+            >
+              🔍 텍스트 영역 자동 찾기
+            </button>
+
+            {scanCandidates.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] text-sky-700">
+                    후보 {scanCandidates.length}개
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => acceptCandidates(scanCandidates.map((c) => c.id))}
+                      className="text-[10px] px-2 py-0.5 bg-sky-500 text-white rounded hover:bg-sky-600"
+                    >
+                      모두 수락
+                    </button>
+                    <button
+                      onClick={() => rejectCandidates(scanCandidates.map((c) => c.id))}
+                      className="text-[10px] px-2 py-0.5 bg-slate-100 text-slate-600 rounded hover:bg-slate-200"
+                    >
+                      모두 거절
+                    </button>
+                  </div>
+                </div>
+                {scanCandidates.map((cand, idx) => (
+                  <div key={cand.id} className="bg-white rounded-lg p-2 border border-sky-100 flex items-start gap-2">
+                    <span className="text-[10px] font-bold text-sky-600 whitespace-nowrap">{idx + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-slate-700 whitespace-pre-wrap break-all">{cand.ocrText}</p>
+                      <p className="text-[10px] text-slate-400 font-mono">
+                        {cand.fontSize}px · OCR {cand.ocrConfidence}%
+                      </p>
+                      {/* v3.6: 오타 의심 → 교정문으로 바로 영역 추가 */}
+                      {checkSpelling(cand.ocrText || '', spellRules).map((issue) => (
+                        <div key={`${issue.ruleId}-${issue.start}`} className="flex items-center gap-1 mt-1">
+                          <span className="text-[10px] px-1 rounded bg-rose-100 text-rose-700" title={issue.reason}>
+                            ⚠️ {issue.word}
+                          </span>
+                          {issue.suggestion !== null && (
+                            <button
+                              onClick={() =>
+                                acceptCandidates([cand.id], { [cand.id]: applySpellFix(cand.ocrText || '', issue) })
+                              }
+                              className="text-[10px] px-1 rounded bg-emerald-100 text-emerald-700 hover:bg-emerald-200"
+                              title="교정문으로 영역 추가"
+                            >
+                              → {issue.suggestion}
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => acceptCandidates([cand.id])}
+                      className="text-xs text-sky-600 hover:text-sky-800"
+                      title="수락"
+                    >
+                      ✓
+                    </button>
+                    <button
+                      onClick={() => rejectCandidates([cand.id])}
+                      className="text-xs text-slate-400 hover:text-red-500"
+                      title="거절"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* v3.6: 오타 사전 */}
+          <details className="bg-rose-50 rounded-xl p-3 border border-rose-200">
+            <summary className="font-bold text-rose-800 text-sm cursor-pointer">
+              📖 오타 사전 ({typoDictionary.length})
+            </summary>
+            <div className="space-y-1 mt-2">
+              {typoDictionary.map((entry) => (
+                <div key={entry.wrong} className="flex items-center gap-1 text-xs">
+                  <span className="flex-1 text-rose-700 truncate">{entry.wrong}</span>
+                  <span className="text-slate-400">→</span>
+                  <span className="flex-1 text-emerald-700 truncate">{entry.right}</span>
+                  <button
+                    onClick={() => updateTypoDictionary(typoDictionary.filter((e) => e.wrong !== entry.wrong))}
+                    className="text-slate-400 hover:text-red-500"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-1 pt-1">
+                <input
+                  type="text"
+                  value={newTypo.wrong}
+                  onChange={(e) => setNewTypo({ ...newTypo, wrong: e.target.value })}
+                  placeholder="틀린 말"
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-rose-200 rounded"
+                />
+                <input
+                  type="text"
+                  value={newTypo.right}
+                  onChange={(e) => setNewTypo({ ...newTypo, right: e.target.value })}
+                  placeholder="바른 말"
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-rose-200 rounded"
+                />
+                <button
+                  onClick={addTypoEntry}
+                  disabled={!newTypo.wrong.trim() || !newTypo.right.trim()}
+                  className="text-xs px-2 py-1 bg-rose-500 text-white rounded hover:bg-rose-600 disabled:opacity-50"
+                >
+                  +
+                </button>
+              </div>
+              <button
+                onClick={() => updateTypoDictionary(DEFAULT_TYPO_DICTIONARY)}
+                className="w-full py-1 text-[10px] bg-white text-rose-600 rounded hover:bg-rose-100"
+              >
+                기본 사전으로 초기화
+              </button>
+            </div>
+          </details>
+
+          {/* v3.9: 자동 저장 세션 */}
+          <details className="bg-amber-50 rounded-xl p-3 border border-amber-200">
+            <summary className="font-bold text-amber-800 text-sm cursor-pointer">
+              🗄️ 자동 저장 ({autosaveSessions.length})
+            </summary>
+            <div className="space-y-1 mt-2">
+              {autosaveSessions.length === 0 && (
+                <p className="text-[10px] text-amber-600">편집하면 브라우저에 자동으로 저장됩니다</p>
+              )}
+              {autosaveSessions.map((session) => (
+                <div
+                  key={session.id}
+                  className={`flex items-center gap-1 text-xs rounded px-1 py-0.5 ${
+                    sessionRef.current?.id === session.id ? 'bg-amber-100' : ''
+                  }`}
+                >
+                  <button
+                    onClick={() => restoreAutosave(session)}
+                    className="flex-1 min-w-0 text-left hover:text-amber-700"
+                    title={session.sourceName}
+                  >
+                    <div className="truncate font-medium text-slate-700">{session.name}</div>
+                    <div className="text-[10px] text-slate-400">
+                      {new Date(session.updatedAt).toLocaleString('ko-KR')}
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => renameSession(session)}
+                    className="text-slate-400 hover:text-amber-600"
+                    title="이름 변경"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    onClick={() => deleteSession(session)}
+                    className="text-slate-400 hover:text-red-500"
+                    title="삭제"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
             </div>
-          </section>
+          </details>
+
+          {/* v4.0: 찾기 / 바꾸기 */}
+          <section className="bg-yellow-50 rounded-xl p-3 border border-yellow-200 space-y-2">
+            <h3 className="font-bold text-yellow-800 text-sm">🔎 찾기 / 바꾸기</h3>
+            <input
+              type="text"
+              value={findOptions.query}
+              onChange={(e) => setFindOptions({ ...findOptions, query: e.target.value })}
+              placeholder="찾을 말"
+              className={`w-full px-2 py-1 text-xs border rounded ${
+                findOptions.query && !findPattern ? 'border-red-400' : 'border-yellow-200'
+              }`}
+            />
+            <input
+              type="text"
+              value={findOptions.replacement}
+              onChange={(e) => setFindOptions({ ...findOptions, replacement: e.target.value })}
+              placeholder={findOptions.useRegex ? '바꿀 말 ($1 사용 가능)' : '바꿀 말'}
+              className="w-full px-2 py-1 text-xs border border-yellow-200 rounded"
+            />
+            <div className="flex items-center gap-3 text-[10px] text-yellow-800">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={findOptions.caseSensitive}
+                  onChange={(e) => setFindOptions({ ...findOptions, caseSensitive: e.target.checked })}
+                  className="accent-yellow-500"
+                />
+                대소문자 구분
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={findOptions.useRegex}
+                  onChange={(e) => setFindOptions({ ...findOptions, useRegex: e.target.checked })}
+                  className="accent-yellow-500"
+                />
+                정규식
+              </label>
+            </div>
+            {findOptions.query && !findPattern && (
+              <p className="text-[10px] text-red-500">정규식이 올바르지 않거나 빈 문자열과 일치합니다</p>
+            )}
+
+            {findResult && (
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {findResult.matches.length === 0 && <p className="text-[10px] text-slate-400">일치 항목 없음</p>}
+                {findResult.matches.map((match) => (
+                  <div key={match.key} className="text-[10px] bg-white rounded p-1.5 border border-yellow-100">
+                    <div className="flex justify-between text-yellow-700 font-medium">
+                      <span>{match.label}</span>
+                      <span>{match.count}곳</span>
+                    </div>
+                    <div className="text-rose-600 line-through truncate">{match.before}</div>
+                    <div className="text-emerald-700 truncate">{match.after || '(빈 텍스트)'}</div>
+                  </div>
+                ))}
+              </div>
+            )}
 
-          {/* 히스토리 & 스티커 */}
-          <section className="flex gap-2">
-            <button
-              onClick={undo}
-              disabled={historyIndex <= 0}
-              className="flex-1 py-2 bg-slate-100 rounded-lg text-sm font-medium hover:bg-slate-200 disabled:opacity-50 transition"
-            >
-              ↩️ 실행취소
-            </button>
             <button
-              onClick={redo}
-              disabled={historyIndex >= history.length - 1}
-              className="flex-1 py-2 bg-slate-100 rounded-lg text-sm font-medium hover:bg-slate-200 disabled:opacity-50 transition"
+              onClick={replaceAllMatches}
+              disabled={!findResult || findResult.matches.length === 0}
+              className="w-full py-1.5 bg-yellow-500 text-white rounded-lg text-xs font-medium hover:bg-yellow-600 disabled:opacity-50"
             >
-              ↪️ 다시실행
+              모두 바꾸기 ({findResult ? findResult.matches.reduce((sum, m) => sum + m.count, 0) : 0})
             </button>
           </section>
 
-          <section className="flex gap-2">
-            <label className="flex-1 py-2 bg-gradient-to-r from-pink-100 to-rose-100 rounded-lg text-sm font-medium text-center cursor-pointer hover:from-pink-200 hover:to-rose-200 transition">
-              🎀 스티커 추가
-              <input
-                type="file"
-                accept="image/*"
-                onChange={(e) => e.target.files?.[0] && handleStickerUpload(e.target.files[0])}
-                className="hidden"
-              />
-            </label>
-            <button
-              onClick={addCustomText}
-              disabled={!image}
-              className="flex-1 py-2 bg-gradient-to-r from-violet-100 to-purple-100 rounded-lg text-sm font-medium hover:from-violet-200 hover:to-purple-200 disabled:opacity-50 transition"
-            >
-              🌈 멀티컬러 글씨
-            </button></section>
+          {/* v4.0: 일괄 처리 */}
+          <section className="bg-teal-50 rounded-xl p-3 border border-teal-200 space-y-2">
+            <h3 className="font-bold text-teal-800 text-sm">📦 일괄 처리</h3>
+            <div className="flex gap-1">
+              <label className="flex-1 cursor-pointer py-1.5 text-center text-xs bg-white border border-teal-200 rounded-lg hover:bg-teal-100">
+                🖼️ 파일 여러 개
+                <input type="file" accept="image/*" multiple onChange={handleBatchFiles} className="hidden" />
+              </label>
+              <label className="flex-1 cursor-pointer py-1.5 text-center text-xs bg-white border border-teal-200 rounded-lg hover:bg-teal-100">
+                📂 폴더
+                <input
+                  type="file"
+                  multiple
+                  onChange={handleBatchFiles}
+                  className="hidden"
+                  // 폴더 선택 - 비표준 속성이라 DOM 속성(HTMLInputElement.webkitdirectory)으로 켬
+                  ref={(input: HTMLInputElement | null) => {
+                    if (input) input.webkitdirectory = true;
+                  }}
+                />
+              </label>
+            </div>
+
+            {/* 공통 찾기→바꾸기 규칙 */}
+            <div className="space-y-1">
+              <span className="text-[10px] text-teal-700">공통 규칙 ({batchRules.length})</span>
+              {batchRules.map((rule) => (
+                <div key={rule.wrong} className="flex items-center gap-1 text-xs">
+                  <span className="flex-1 text-rose-700 truncate">{rule.wrong}</span>
+                  <span className="text-slate-400">→</span>
+                  <span className="flex-1 text-emerald-700 truncate">{rule.right || '(삭제)'}</span>
+                  <button
+                    onClick={() => updateBatchRules(batchRules.filter((r) => r.wrong !== rule.wrong))}
+                    className="text-slate-400 hover:text-red-500"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-1 pt-1">
+                <input
+                  type="text"
+                  value={newBatchRule.wrong}
+                  onChange={(e) => setNewBatchRule({ ...newBatchRule, wrong: e.target.value })}
+                  placeholder="찾기"
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-teal-200 rounded"
+                />
+                <input
+                  type="text"
+                  value={newBatchRule.right}
+                  onChange={(e) => setNewBatchRule({ ...newBatchRule, right: e.target.value })}
+                  placeholder="바꾸기"
+                  className="flex-1 min-w-0 px-2 py-1 text-xs border border-teal-200 rounded"
+                />
+                <button
+                  onClick={addBatchRule}
+                  disabled={!newBatchRule.wrong.trim()}
+                  className="text-xs px-2 py-1 bg-teal-500 text-white rounded hover:bg-teal-600 disabled:opacity-50"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+
+            {batchItems.length > 0 && (
+              <>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => runBatch()}
+                    disabled={batchRunning || !batchItems.some((i) => i.status === 'pending' || i.status === 'error')}
+                    className="flex-1 py-1.5 bg-teal-500 text-white rounded-lg text-xs font-medium hover:bg-teal-600 disabled:opacity-50"
+                  >
+                    {batchRunning ? '처리 중...' : '▶ 처리 시작'}
+                  </button>
+                  <button
+                    onClick={() => runBatch(true)}
+                    disabled={batchRunning}
+                    className="px-2 py-1.5 bg-white text-teal-700 border border-teal-200 rounded-lg text-xs hover:bg-teal-100 disabled:opacity-50"
+                    title="현재 규칙으로 전체 다시 처리"
+                  >
+                    🔄
+                  </button>
+                </div>
+
+                <div className="space-y-1 max-h-64 overflow-y-auto">
+                  {batchItems.map((item) => (
+                    <div
+                      key={item.id}
+                      className={`flex items-center gap-2 p-1 rounded-lg text-xs bg-white border ${
+                        item.id === activeBatchId ? 'border-teal-500' : 'border-teal-100'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={item.included}
+                        onChange={(e) => updateBatchItem(item.id, { included: e.target.checked })}
+                        className="accent-teal-500"
+                        title="ZIP 에 포함"
+                      />
+                      {item.resultUrl ? (
+                        <a href={item.resultUrl} target="_blank" rel="noreferrer" className="shrink-0">
+                          <img src={item.resultUrl} alt={item.name} className="w-10 h-10 object-cover rounded" />
+                        </a>
+                      ) : (
+                        <div className="w-10 h-10 shrink-0 rounded bg-slate-100" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="truncate text-slate-700" title={item.name}>{item.name}</div>
+                        <div className="text-[10px]">
+                          {item.status === 'pending' && <span className="text-slate-400">대기</span>}
+                          {item.status === 'processing' && <span className="text-sky-600 animate-pulse">처리 중...</span>}
+                          {item.status === 'done' && (
+                            <span className={item.matchCount > 0 ? 'text-teal-600' : 'text-slate-400'}>
+                              {item.matchCount > 0
+                                ? `수정 ${item.matchCount}곳 · 영역 ${item.state?.selections.length ?? 0}개`
+                                : '일치 없음'}
+                            </span>
+                          )}
+                          {item.status === 'error' && (
+                            <span className="text-red-500" title={item.error}>오류</span>
+                          )}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => openBatchItem(item)}
+                        disabled={item.status !== 'done' || isProcessing}
+                        className="text-teal-600 hover:text-teal-800 disabled:opacity-30"
+                        title="편집기에서 검토"
+                      >
+                        ✏️
+                      </button>
+                      <button
+                        onClick={() => removeBatchItem(item.id)}
+                        disabled={item.status === 'processing'}
+                        className="text-slate-400 hover:text-red-500 disabled:opacity-30"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                {activeBatchId !== null && (
+                  <button
+                    onClick={applyEditorToBatchItem}
+                    disabled={!originalImageData || isProcessing}
+                    className="w-full py-1.5 bg-white text-teal-700 border border-teal-300 rounded-lg text-xs font-medium hover:bg-teal-100 disabled:opacity-50"
+                  >
+                    ✅ 편집 내용을 큐에 반영
+                  </button>
+                )}
+                <button
+                  onClick={exportBatchZip}
+                  disabled={batchRunning || !batchItems.some((i) => i.included && i.resultBlob)}
+                  className="w-full py-2 bg-teal-600 text-white rounded-lg text-sm font-medium hover:bg-teal-700 disabled:opacity-50"
+                >
+                  🗜️ ZIP 내보내기 ({batchItems.filter((i) => i.included && i.resultBlob).length})
+                </button>
+              </>
+            )}
+          </section>
 
           {/* v3.4: API Key 섹션 개선 */}
           {isKeySelected === false && (
@@ -1442,6 +6301,24 @@ function App() {
                     }`}>
                       #{sel.id}
                     </span>
+                    {/* v3.6: OCR 상태 / 신뢰도 */}
+                    {sel.type === 'text' && ocrBusyIds.includes(sel.id) && (
+                      <span className="text-[10px] text-sky-600 animate-pulse">🔤 인식 중...</span>
+                    )}
+                    {sel.type === 'text' && !ocrBusyIds.includes(sel.id) && sel.ocrConfidence !== undefined && (
+                      <span
+                        className={`text-[10px] font-mono px-1.5 py-0.5 rounded ${
+                          sel.ocrConfidence >= 80
+                            ? 'bg-green-100 text-green-700'
+                            : sel.ocrConfidence >= 50
+                            ? 'bg-amber-100 text-amber-700'
+                            : 'bg-red-100 text-red-700'
+                        }`}
+                        title="OCR 신뢰도"
+                      >
+                        OCR {sel.ocrConfidence}%
+                      </span>
+                    )}
                     <button
                       onClick={() => removeSelection(sel.id)}
                       className="text-slate-400 hover:text-red-500 transition"
@@ -1452,18 +6329,162 @@ function App() {
 
                   {sel.type === 'text' && (
                     <>
-                      {/* v3.4: textarea로 줄바꿈 지원 */}
-                      <textarea
-                        value={replacements[sel.id] || ''}
-                        onChange={(e) =>
-                          setReplacements((prev) => ({
-                            ...prev,
-                            [sel.id]: e.target.value.slice(0, MAX_CHAR_LIMIT),
-                          }))
-                        }
-                        placeholder="교정할 텍스트 입력&#10;(Enter로 줄바꿈)"
-                        className="w-full p-2 text-sm border border-slate-200 rounded-lg resize-none h-20 mb-2"
-                      />
+                      {/* v3.8: 부분 서식 토글 */}
+                      <div className="flex justify-end mb-1">
+                        <button
+                          onClick={() => toggleRichText(sel)}
+                          className={`text-[10px] px-2 py-0.5 rounded transition ${
+                            sel.segments
+                              ? 'bg-violet-500 text-white'
+                              : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                          }`}
+                        >
+                          🌈 부분 서식
+                        </button>
+                      </div>
+
+                      {sel.segments ? (
+                        <div className="space-y-1 mb-2">
+                          {sel.segments.map((seg, idx) => (
+                            <div key={idx} className="flex items-center gap-1">
+                              {idx > 0 ? (
+                                <button
+                                  onClick={() =>
+                                    updateSelectionSegments(
+                                      sel.id,
+                                      sel.segments!.map((s, i) => (i === idx ? { ...s, newLine: !s.newLine } : s))
+                                    )
+                                  }
+                                  className={`text-[10px] px-1.5 py-1 rounded transition ${
+                                    seg.newLine
+                                      ? 'bg-violet-500 text-white'
+                                      : 'bg-slate-100 text-slate-400 hover:bg-slate-200'
+                                  }`}
+                                  title={seg.newLine ? '같은 줄로' : '줄바꿈'}
+                                >
+                                  ↵
+                                </button>
+                              ) : (
+                                <div className="w-6" />
+                              )}
+                              <input
+                                type="color"
+                                value={seg.color}
+                                onChange={(e) =>
+                                  updateSelectionSegments(
+                                    sel.id,
+                                    sel.segments!.map((s, i) => (i === idx ? { ...s, color: e.target.value } : s))
+                                  )
+                                }
+                                className="w-6 h-6 rounded cursor-pointer"
+                              />
+                              <input
+                                type="text"
+                                value={seg.text}
+                                onChange={(e) =>
+                                  updateSelectionSegments(
+                                    sel.id,
+                                    sel.segments!.map((s, i) => (i === idx ? { ...s, text: e.target.value } : s))
+                                  )
+                                }
+                                className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-200 rounded"
+                              />
+                              <button
+                                onClick={() =>
+                                  updateSelectionSegments(
+                                    sel.id,
+                                    sel.segments!.map((s, i) =>
+                                      i === idx ? { ...s, bold: !(s.bold ?? sel.fontWeight === 'bold') } : s
+                                    )
+                                  )
+                                }
+                                className={`text-[10px] px-1.5 py-1 rounded transition ${
+                                  seg.bold ?? sel.fontWeight === 'bold'
+                                    ? 'bg-slate-700 text-white'
+                                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                                }`}
+                              >
+                                <b>B</b>
+                              </button>
+                              <input
+                                type="number"
+                                min="10"
+                                max="200"
+                                value={seg.fontSize || sel.fontSize || 32}
+                                onChange={(e) =>
+                                  updateSelectionSegments(
+                                    sel.id,
+                                    sel.segments!.map((s, i) =>
+                                      i === idx ? { ...s, fontSize: parseInt(e.target.value) || undefined } : s
+                                    )
+                                  )
+                                }
+                                className="w-11 text-[10px] font-mono text-center border border-slate-200 rounded py-1"
+                                title="글자 크기 (px)"
+                              />
+                              {sel.segments!.length > 1 && (
+                                <button
+                                  onClick={() =>
+                                    updateSelectionSegments(
+                                      sel.id,
+                                      sel.segments!.filter((_, i) => i !== idx)
+                                    )
+                                  }
+                                  className="text-xs text-slate-400 hover:text-red-500"
+                                >
+                                  ✕
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                          <button
+                            onClick={() =>
+                              updateSelectionSegments(sel.id, [
+                                ...sel.segments!,
+                                {
+                                  text: '',
+                                  color: DEFAULT_COLORS[sel.segments!.length % DEFAULT_COLORS.length],
+                                },
+                              ])
+                            }
+                            className="w-full py-1 text-[10px] bg-violet-100 text-violet-700 rounded hover:bg-violet-200"
+                          >
+                            + 구간 추가
+                          </button>
+                        </div>
+                      ) : (
+                        /* v3.4: textarea로 줄바꿈 지원 */
+                        <textarea
+                          value={replacements[sel.id] || ''}
+                          onChange={(e) =>
+                            setReplacements((prev) => ({
+                              ...prev,
+                              [sel.id]: e.target.value.slice(0, MAX_CHAR_LIMIT),
+                            }))
+                          }
+                          placeholder="교정할 텍스트 입력&#10;(Enter로 줄바꿈)"
+                          className="w-full p-2 text-sm border border-slate-200 rounded-lg resize-none h-20 mb-2"
+                        />
+                      )}
+
+                      {/* v3.6: 오타 의심 단어 */}
+                      {checkSpelling(replacements[sel.id] || '', spellRules).map((issue) => (
+                        <div
+                          key={`${issue.ruleId}-${issue.start}`}
+                          className="flex items-center gap-1 mb-1 text-[10px]"
+                        >
+                          <span className="px-1 rounded bg-rose-100 text-rose-700">⚠️ {issue.word}</span>
+                          <span className="flex-1 text-slate-400 truncate">{issue.reason}</span>
+                          {issue.suggestion !== null && (
+                            <button
+                              onClick={() => applySpellFixToSelection(sel.id, issue)}
+                              className="px-1 rounded bg-emerald-100 text-emerald-700 hover:bg-emerald-200"
+                            >
+                              → {issue.suggestion}
+                            </button>
+                          )}
+                        </div>
+                      ))}
                       
                       <div className="space-y-2">
                         {/* 크기 - v3.4: 실시간 반영 */}
@@ -1488,6 +6509,31 @@ function App() {
                           <span className="text-[10px]">px</span>
                         </div>
 
+                        {/* v3.8: 줄 간격 / 세로 위치 */}
+                        <div className="flex items-center gap-2">
+                          <span className="text-[10px] text-slate-500 w-12">줄간격</span>
+                          <input
+                            type="range"
+                            min="0.8"
+                            max="3"
+                            step="0.05"
+                            value={sel.lineHeight || DEFAULT_LINE_HEIGHT}
+                            onChange={(e) => updateSelection(sel.id, { lineHeight: parseFloat(e.target.value) })}
+                            className="flex-1 h-1 accent-red-500"
+                          />
+                          <span className="text-[10px] font-mono w-8 text-right">
+                            {(sel.lineHeight || DEFAULT_LINE_HEIGHT).toFixed(2)}
+                          </span>
+                          <span className="text-[10px] text-slate-500">↕</span>
+                          <input
+                            type="number"
+                            value={sel.textOffsetY || 0}
+                            onChange={(e) => updateSelection(sel.id, { textOffsetY: parseInt(e.target.value) || 0 })}
+                            className="w-12 text-[10px] font-mono text-center border border-slate-200 rounded py-1"
+                            title="세로 위치 (px)"
+                          />
+                        </div>
+
                         {/* 글자색 */}
                         <div className="flex items-center gap-2">
                           <span className="text-[10px] text-slate-500 w-12">글자색</span>
@@ -1526,6 +6572,59 @@ function App() {
                           </button>
                         </div>
 
+                        {/* v3.7: 배경 복원 방식 */}
+                        <div className="flex items-center gap-2">
+                          <span className="text-[10px] text-slate-500 w-12">지우기</span>
+                          <div className="flex flex-1 gap-1">
+                            {BG_FILL_OPTIONS.map((opt) => (
+                              <button
+                                key={opt.value}
+                                onClick={() => updateSelection(sel.id, { bgFillMode: opt.value })}
+                                className={`flex-1 py-1 text-[10px] rounded transition ${
+                                  (sel.bgFillMode || 'flat') === opt.value
+                                    ? 'bg-slate-700 text-white'
+                                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                                }`}
+                              >
+                                {opt.label}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+
+                        {/* v3.7: 그라데이션 방향 / 색상 */}
+                        {sel.bgFillMode === 'gradient' && (
+                          <div className="flex items-center gap-1 pl-14">
+                            {BG_KIND_OPTIONS.map((opt) => (
+                              <button
+                                key={opt.value}
+                                onClick={() => updateSelection(sel.id, { bgSpec: { ...getGradientSpec(sel), kind: opt.value } })}
+                                className={`flex-1 py-1 text-[10px] rounded transition ${
+                                  getGradientSpec(sel).kind === opt.value
+                                    ? 'bg-slate-700 text-white'
+                                    : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                                }`}
+                              >
+                                {opt.label}
+                              </button>
+                            ))}
+                            <input
+                              type="color"
+                              value={getGradientSpec(sel).from}
+                              onChange={(e) => updateSelection(sel.id, { bgSpec: { ...getGradientSpec(sel), from: e.target.value } })}
+                              className="w-6 h-6 rounded cursor-pointer"
+                              title="시작색"
+                            />
+                            <input
+                              type="color"
+                              value={getGradientSpec(sel).to}
+                              onChange={(e) => updateSelection(sel.id, { bgSpec: { ...getGradientSpec(sel), to: e.target.value } })}
+                              className="w-6 h-6 rounded cursor-pointer"
+                              title="끝색"
+                            />
+                          </div>
+                        )}
+
                         {/* 폰트 */}
                         <div className="flex items-center gap-2">
                           <span className="text-[10px] text-slate-500 w-12">폰트</span>
@@ -1540,6 +6639,15 @@ function App() {
                               </option>
                             ))}
                           </select>
+                          {/* v3.8: 원본 글자 모양으로 폰트 추정 */}
+                          <button
+                            onClick={() => matchSelectionFont(sel, sel.ocrText || replacements[sel.id] || '')}
+                            disabled={fontMatchBusyIds.includes(sel.id) || !(replacements[sel.id] || sel.ocrText)}
+                            className="text-xs px-2 py-1 bg-slate-100 rounded hover:bg-slate-200 disabled:opacity-50"
+                            title="원본과 비슷한 폰트 찾기 (원문 텍스트 필요)"
+                          >
+                            {fontMatchBusyIds.includes(sel.id) ? '⏳' : '🔠'}
+                          </button>
                         </div>
 
                         {/* 정렬 & 굵기 */}
@@ -1650,12 +6758,22 @@ function App() {
                         </div>
 
                         {/* 재분석 버튼 */}
-                        <button
-                          onClick={() => reanalyzeSelection(sel.id)}
-                          className="w-full py-1 text-[10px] bg-slate-100 text-slate-600 rounded hover:bg-slate-200 transition"
-                        >
-                          🔄 자동 감지 다시 실행
-                        </button>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => reanalyzeSelection(sel.id)}
+                            className="flex-1 py-1 text-[10px] bg-slate-100 text-slate-600 rounded hover:bg-slate-200 transition"
+                          >
+                            🔄 자동 감지 다시 실행
+                          </button>
+                          {/* v3.6: 원문 다시 인식 */}
+                          <button
+                            onClick={() => ocrSelection(sel, true)}
+                            disabled={ocrBusyIds.includes(sel.id)}
+                            className="flex-1 py-1 text-[10px] bg-sky-100 text-sky-700 rounded hover:bg-sky-200 disabled:opacity-50 transition"
+                          >
+                            🔤 OCR 다시 실행
+                          </button>
+                        </div>
                       </div>
                     </>
                   )}
@@ -1733,6 +6851,22 @@ function App() {
                           className="hidden"
                         />
                       </label>
+                      {/* v3.7: 원래 이미지 지우는 방식 */}
+                      <div className="flex gap-1">
+                        {BG_FILL_OPTIONS.filter((opt) => opt.value !== 'glyph').map((opt) => (
+                          <button
+                            key={opt.value}
+                            onClick={() => updateSelection(sel.id, { bgFillMode: opt.value })}
+                            className={`flex-1 py-1 text-[10px] rounded transition ${
+                              (sel.bgFillMode || 'flat') === opt.value
+                                ? 'bg-amber-500 text-white'
+                                : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                            }`}
+                          >
+                            {opt.label}
+                          </button>
+                        ))}
+                      </div>
                       {sel.replacementImage && (
                         <>
                           <div className="flex items-center gap-2">
@@ -2185,17 +7319,81 @@ function App() {
             >
               {isProcessing ? processStep : '🚀 교정 실행'}
             </button>
+            {/* v4.0: 내보내기 형식 */}
+            {resultImage && (
+              <div className="bg-slate-50 rounded-xl p-3 border border-slate-200 space-y-2">
+                <div className="flex gap-1">
+                  {EXPORT_FORMAT_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      onClick={() => setExportFormat(opt.value)}
+                      className={`flex-1 py-1 text-xs rounded transition ${
+                        exportFormat === opt.value
+                          ? 'bg-emerald-600 text-white'
+                          : 'bg-white text-slate-600 border border-slate-200 hover:bg-slate-100'
+                      }`}
+                    >
+                      {opt.label}
+                    </button>
+                  ))}
+                </div>
+                {exportFormat !== 'image/png' && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-slate-500 w-8">품질</span>
+                    <input
+                      type="range"
+                      min="0.3"
+                      max="1"
+                      step="0.01"
+                      value={exportQuality}
+                      onChange={(e) => setExportQuality(parseFloat(e.target.value))}
+                      className="flex-1 h-1 accent-emerald-500"
+                    />
+                    <span className="text-[10px] font-mono w-8 text-right">{Math.round(exportQuality * 100)}</span>
+                  </div>
+                )}
+                <label className="flex items-center gap-2 text-[10px] text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={stripMetadata}
+                    onChange={(e) => setStripMetadata(e.target.checked)}
+                    className="accent-emerald-500"
+                  />
+                  메타데이터(EXIF) 제거
+                  {!stripMetadata && exportFormat !== 'image/jpeg' && (
+                    <span className="text-slate-400">(JPEG 원본 → JPEG 만 유지)</span>
+                  )}
+                </label>
+                <p className="text-[10px] text-slate-500">
+                  {originalImageData && `${originalImageData.width}×${originalImageData.height}px · `}
+                  {exportBlob ? formatFileSize(exportBlob.size) : '계산 중...'}
+                  {exportBlob && exportBlob.type !== exportFormat && ' (이 브라우저는 해당 형식 미지원 → PNG)'}
+                </p>
+              </div>
+            )}
             <button
               onClick={downloadResult}
-              disabled={!resultImage || isProcessing}
+              disabled={!exportBlob || isProcessing}
               className={`w-full py-3 rounded-xl font-bold text-white transition ${
-                !resultImage || isProcessing
+                !exportBlob || isProcessing
                   ? 'bg-slate-200 text-slate-400 cursor-not-allowed'
                   : 'bg-emerald-600 hover:bg-emerald-700'
               }`}
             >
               📥 결과물 다운로드
             </button>
+            {pdfDoc && (
+              <button
+                onClick={exportPdf}
+                disabled={isProcessing}
+                className={`w-full py-3 rounded-xl font-bold text-white transition ${
+                  isProcessing ? 'bg-slate-200 text-slate-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'
+                }`}
+                title="모든 페이지를 원본 크기·순서대로 PDF 하나로 내보내기"
+              >
+                📑 PDF 내보내기 ({numPages}쪽)
+              </button>
+            )}
           </div>
         </aside>
 
@@ -2216,39 +7414,122 @@ function App() {
                 <p className="text-sm font-semibold">PDF 또는 이미지를 업로드하세요</p>
               </div>
             ) : (
-              <div className="relative inline-block">
-                <canvas
-                  ref={canvasRef}
-                  onMouseDown={onMouseDown}
-                  onMouseMove={onMouseMove}
-                  onMouseUp={onMouseUp}
-                  onMouseLeave={onMouseUp}
-                  className={`shadow-lg rounded-lg ${eyedropperMode.active ? 'cursor-cell' : 'cursor-crosshair'}`}
-                  style={{ maxWidth: '100%', height: 'auto' }}
-                />
+              <div className="w-full flex flex-col gap-2">
+                {/* v4.0: 확대/축소 도구 */}
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                  <button
+                    onClick={() => zoomTo(viewport.zoom / ZOOM_STEP)}
+                    disabled={!isZoomed}
+                    className="w-7 h-7 rounded-lg bg-slate-100 hover:bg-slate-200 font-bold text-slate-600 disabled:opacity-40"
+                    title="축소"
+                  >
+                    −
+                  </button>
+                  <span className="w-12 text-center font-mono text-slate-600">{Math.round(viewport.zoom * 100)}%</span>
+                  <button
+                    onClick={() => zoomTo(viewport.zoom * ZOOM_STEP)}
+                    disabled={viewport.zoom >= MAX_ZOOM}
+                    className="w-7 h-7 rounded-lg bg-slate-100 hover:bg-slate-200 font-bold text-slate-600 disabled:opacity-40"
+                    title="확대"
+                  >
+                    +
+                  </button>
+                  <button
+                    onClick={() => setManualViewport(null)}
+                    className={`px-2 h-7 rounded-lg font-semibold ${
+                      !isZoomed ? 'bg-blue-500 text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'
+                    }`}
+                  >
+                    맞춤
+                  </button>
+                  {ZOOM_PRESETS.map((zoom) => (
+                    <button
+                      key={zoom}
+                      onClick={() => zoomTo(zoom)}
+                      className={`px-2 h-7 rounded-lg font-semibold ${
+                        isZoomed && Math.abs(viewport.zoom - zoom) < 1e-6
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-slate-100 hover:bg-slate-200 text-slate-600'
+                      }`}
+                    >
+                      {zoom * 100}%
+                    </button>
+                  ))}
+                  <span className="ml-auto text-slate-400">휠: 확대/축소 · Space+드래그: 이동</span>
+                  <button
+                    onClick={() => setShowShortcuts(true)}
+                    className="px-2 h-7 rounded-lg bg-slate-100 hover:bg-slate-200 font-semibold text-slate-600"
+                    title="단축키 (?)"
+                  >
+                    ⌨️ 단축키
+                  </button>
+                </div>
                 <div
-                  className={`absolute top-2 left-2 px-3 py-1 rounded-full text-xs font-semibold ${
-                    eyedropperMode.active
-                      ? 'bg-cyan-500 text-white animate-pulse'
-                      : drawMode === 'text'
-                      ? 'bg-red-500 text-white'
-                      : drawMode === 'image-ai'
-                      ? 'bg-purple-500 text-white'
-                      : 'bg-amber-500 text-white'
-                  }`}
+                  ref={viewportElRef}
+                  className="relative w-full overflow-hidden rounded-lg"
+                  style={{ height: viewHeight || undefined }}
                 >
-                  {eyedropperMode.active 
-                    ? `💧 ${eyedropperMode.target === 'text' ? '글자색' : '배경색'} 추출 모드` 
-                    : `${modeInfo.icon} ${modeInfo.label}`}
-                </div>
-                {isProcessing && (
-                  <div className="absolute inset-0 bg-white/70 backdrop-blur-sm flex items-center justify-center z-50 rounded-lg">
-                    <div className="bg-white p-6 rounded-2xl shadow-xl flex flex-col items-center border border-indigo-100">
-                      <div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mb-4"></div>
-                      <p className="font-semibold text-indigo-700">{processStep}</p>
-                    </div>
+                  <canvas
+                    ref={canvasRef}
+                    onPointerDown={onPointerDown}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    onPointerCancel={onPointerUp}
+                    onPointerLeave={() => setHoverCursor(null)}
+                    onContextMenu={onCanvasContextMenu}
+                    className={`shadow-lg rounded-lg ${eyedropperMode.active ? 'cursor-cell' : 'cursor-crosshair'}`}
+                    style={{
+                      position: 'absolute',
+                      left: 0,
+                      top: 0,
+                      maxWidth: 'none',
+                      transformOrigin: '0 0',
+                      touchAction: 'none',
+                      transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})`,
+                      imageRendering: viewport.zoom >= 2 ? 'pixelated' : 'auto',
+                      cursor: spaceHeld
+                        ? panRef.current ? 'grabbing' : 'grab'
+                        : !eyedropperMode.active && hoverCursor
+                        ? hoverCursor
+                        : undefined,
+                    }}
+                  />
+                  <div
+                    className={`absolute top-2 left-2 px-3 py-1 rounded-full text-xs font-semibold ${
+                      eyedropperMode.active
+                        ? 'bg-cyan-500 text-white animate-pulse'
+                        : drawMode === 'text'
+                        ? 'bg-red-500 text-white'
+                        : drawMode === 'image-ai'
+                        ? 'bg-purple-500 text-white'
+                        : 'bg-amber-500 text-white'
+                    }`}
+                  >
+                    {eyedropperMode.active 
+                      ? `💧 ${eyedropperMode.target === 'text' ? '글자색' : '배경색'} 추출 모드` 
+                      : `${modeInfo.icon} ${modeInfo.label}`}
                   </div>
-                )}
+                  {isProcessing && (
+                    <div className="absolute inset-0 bg-white/70 backdrop-blur-sm flex items-center justify-center z-50 rounded-lg">
+                      <div className="bg-white p-6 rounded-2xl shadow-xl flex flex-col items-center border border-indigo-100">
+                        <div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+                        <p className="font-semibold text-indigo-700">{processStep}</p>
+                      </div>
+                    </div>
+                  )}
+                  {/* v4.0: 확대 중일 때 전체 중 보이는 위치 */}
+                  {isZoomed && (
+                    <canvas
+                      ref={minimapRef}
+                      onPointerDown={onMinimapPointer}
+                      onPointerMove={onMinimapPointer}
+                      onPointerUp={() => (minimapDragRef.current = false)}
+                      onPointerCancel={() => (minimapDragRef.current = false)}
+                      className="absolute bottom-2 right-2 rounded-lg border-2 border-white shadow-lg bg-white cursor-pointer"
+                      style={{ width: MINIMAP_WIDTH, touchAction: 'none' }}
+                    />
+                  )}
+                </div>
               </div>
             )}
           </div>
@@ -2259,6 +7540,7 @@ function App() {
                 <h3 className="text-xl font-bold text-emerald-800">✨ 결과물</h3>
                 <button
                   onClick={downloadResult}
+                  disabled={!exportBlob}
                   className="px-6 py-2 bg-emerald-600 text-white font-semibold rounded-xl hover:bg-emerald-700 transition"
                 >
                   다운로드
@@ -2273,7 +7555,96 @@ function App() {
       </main>
 
       <canvas ref={originalCanvasRef} style={{ display: 'none' }} />
-      
+
+      {/* v4.0: 길게 누르기 / 오른쪽 클릭 메뉴 */}
+      {contextMenu && (
+        <div className="fixed inset-0 z-50" onPointerDown={() => setContextMenu(null)}>
+          <div
+            className="absolute bg-white rounded-xl shadow-xl border border-slate-100 py-1 min-w-[160px] text-sm"
+            style={{ left: contextMenu.x, top: contextMenu.y }}
+            onPointerDown={(e) => e.stopPropagation()}
+          >
+            <div className="px-3 py-1.5 text-xs font-semibold text-slate-400 truncate max-w-[220px]">
+              {contextMenu.layer.name || defaultLayerName(contextMenu.layer, editState)}
+            </div>
+            {[
+              {
+                label: '📄 복제',
+                action: () => setSelectedId(duplicateLayerItem({ id: contextMenu.layer.id, type: contextMenu.layer.kind })),
+              },
+              { label: '⬆️ 한 칸 위로', action: () => moveLayer(contextMenu.layer, 1) },
+              { label: '⬇️ 한 칸 아래로', action: () => moveLayer(contextMenu.layer, -1) },
+              { label: '🔒 잠금', action: () => updateLayer(contextMenu.layer, { locked: true }) },
+              {
+                label: '🗑️ 삭제',
+                action: () => {
+                  removeLayerItem({ id: contextMenu.layer.id, type: contextMenu.layer.kind });
+                  setSelectedItems([]);
+                },
+              },
+            ].map((item) => (
+              <button
+                key={item.label}
+                onClick={() => {
+                  item.action();
+                  setContextMenu(null);
+                }}
+                className="block w-full text-left px-3 py-2 hover:bg-slate-100 text-slate-700"
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* v4.0: 단축키 안내 */}
+      {showShortcuts && (
+        <div
+          className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4"
+          onClick={() => setShowShortcuts(false)}
+        >
+          <div
+            className="bg-white rounded-2xl shadow-xl border border-slate-100 p-6 w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-4 pb-3 border-b border-slate-100">
+              <h3 className="text-lg font-bold text-slate-800">⌨️ 단축키</h3>
+              <button
+                onClick={() => setShowShortcuts(false)}
+                className="w-8 h-8 rounded-lg bg-slate-100 hover:bg-slate-200 text-slate-500"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="space-y-4">
+              {SHORTCUT_GROUPS.map((group) => (
+                <div key={group.title}>
+                  <h4 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">{group.title}</h4>
+                  <ul className="space-y-1.5">
+                    {group.items.map((item) => (
+                      <li key={item.label} className="flex items-center justify-between gap-4 text-sm">
+                        <span className="text-slate-600">{item.label}</span>
+                        <span className="flex gap-1 shrink-0">
+                          {item.keys.map((k) => (
+                            <kbd
+                              key={k}
+                              className="px-1.5 py-0.5 min-w-[1.5rem] text-center text-xs font-mono bg-slate-100 border border-slate-200 border-b-2 rounded"
+                            >
+                              {k}
+                            </kbd>
+                          ))}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* 개발자 정보 footer */}
       <footer className="max-w-7xl mx-auto mt-8 pt-6 border-t border-slate-200 text-center text-sm text-slate-500">
         <p>
@@ -2284,5 +7655,18 @@ function App() {
   );
 }
 
-const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
\ No newline at end of file
+// 장면 렌더러 픽셀 비교 / 맞춤법 규칙 테스트용 (index.test.ts)
+export {
+  createSceneAssets,
+  composeScene,
+  buildLayerItems,
+  paintCanvasItems,
+  checkSpelling,
+  createSpellRules,
+  type HistoryState,
+  type Rect,
+};
+
+// 테스트처럼 DOM 없이 불러올 때는 앱을 띄우지 않음
+const rootElement = typeof document !== 'undefined' ? document.getElementById('root') : null;
+if (rootElement) createRoot(rootElement).render(<App />);
\ No newline at end of file